@@ -0,0 +1,116 @@
+/**
+ * A record of an NDJSON export, one per line.
+ *
+ * @typedef {Object} KeyvUpstashExportRecord
+ *
+ * @property {string} key - The key, without the namespace prefix.
+ * @property {string} value - The value as it is stored, i.e. still compressed and encrypted if enabled.
+ * @property {number} pttl - The remaining TTL of the key in milliseconds when it was exported, or -1 if it does not expire.
+ */
+export type KeyvUpstashExportRecord = {
+  key: string
+  value: string
+  pttl: number
+}
+
+/**
+ * What `import` does with keys that already exist: `overwrite` replaces their value, while `skip-existing` keeps it.
+ */
+export type KeyvUpstashImportMode = "overwrite" | "skip-existing"
+
+/**
+ * Options for importing an NDJSON export.
+ *
+ * @typedef {Object} KeyvUpstashImportOptions
+ *
+ * @property {KeyvUpstashImportMode} [mode="overwrite"] - What to do with keys that already exist.
+ * @property {boolean} [preserveTtl=true] - Whether to restore the remaining TTL of the exported keys. Otherwise, keys get `defaultTtl`.
+ */
+export type KeyvUpstashImportOptions = {
+  mode?: KeyvUpstashImportMode
+  preserveTtl?: boolean
+}
+
+/**
+ * The progress of an import, emitted as an `import-progress` event after every batch and returned once it is complete.
+ *
+ * @typedef {Object} KeyvUpstashImportProgress
+ *
+ * @property {number} imported - The number of records written so far.
+ * @property {number} skipped - The number of records skipped so far because their key already existed.
+ */
+export type KeyvUpstashImportProgress = {
+  imported: number
+  skipped: number
+}
+
+/**
+ * The chunks an NDJSON export can be read from, e.g. the stream returned by `export` or a file read stream.
+ * Lines may be split across chunks.
+ */
+export type KeyvUpstashImportSource =
+  AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>
+
+/**
+ * Serializes a record as a line of NDJSON.
+ *
+ * @param record - The record to serialize.
+ * @returns The line, including its trailing newline.
+ */
+export function serializeExportRecord(record: KeyvUpstashExportRecord): string {
+  return `${JSON.stringify(record)}\n`
+}
+
+/**
+ * Parses the records of an NDJSON export, skipping blank lines.
+ *
+ * @param source - The chunks of the export.
+ * @returns An async iterator with the records, in order.
+ * @throws {Error} Throws an error if a line is not a valid record.
+ */
+export async function* parseExportRecords(
+  source: KeyvUpstashImportSource
+): AsyncGenerator<KeyvUpstashExportRecord, void, unknown> {
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let lineNumber = 0
+
+  const parseLine = (line: string): KeyvUpstashExportRecord | undefined => {
+    lineNumber++
+    if (line.trim() === "") return undefined
+
+    let record: Partial<KeyvUpstashExportRecord> | undefined
+    try {
+      record = JSON.parse(line)
+    } catch {
+      // Reported below along with the records that have the wrong shape.
+    }
+
+    if (
+      typeof record?.key !== "string" ||
+      typeof record.value !== "string" ||
+      typeof record.pttl !== "number"
+    ) {
+      throw new Error(`Invalid export record on line ${lineNumber}`)
+    }
+
+    return record as KeyvUpstashExportRecord
+  }
+
+  for await (const chunk of source) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true })
+
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+    for (const line of lines) {
+      const record = parseLine(line)
+      if (record) yield record
+    }
+  }
+
+  const record = parseLine(buffer + decoder.decode())
+  if (record) yield record
+}
@@ -0,0 +1,141 @@
+/**
+ * Options for coalescing concurrent `get` and `has` calls into batched requests.
+ *
+ * @typedef {Object} KeyvUpstashBatchingOptions
+ *
+ * @property {number} [window=0] - How long to wait for more calls before sending a batch, in milliseconds.
+ * With 0, the calls issued in the same tick of the event loop are batched together.
+ * @property {number} [maxBatchSize=100] - The maximum number of distinct keys in a batch. A batch is sent right away once it is full.
+ */
+export type KeyvUpstashBatchingOptions = {
+  window?: number
+  maxBatchSize?: number
+}
+
+type PendingLoad<V> = {
+  promise: Promise<V>
+  resolve: (value: V) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Resolves the batching option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the batching options.
+ * @returns The resolved options, or `undefined` if batching is disabled.
+ */
+export function resolveBatchingOptions(
+  option: boolean | KeyvUpstashBatchingOptions | undefined
+): Required<KeyvUpstashBatchingOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    window: options.window ?? 0,
+    maxBatchSize: options.maxBatchSize ?? 100,
+  }
+}
+
+/**
+ * Coalesces the loads issued within a time window into a single call of a batch function, DataLoader style.
+ * Loads with the same id in a batch share the same promise.
+ *
+ * @template K - The type of the items to load.
+ * @template V - The type of the loaded values.
+ */
+export class KeyvUpstashBatcher<K, V> {
+  /**
+   * The resolved batching options.
+   */
+  readonly options: Required<KeyvUpstashBatchingOptions>
+
+  /**
+   * Loads the values of a batch of distinct items, in the same order.
+   */
+  private readonly batchFunction: (items: K[]) => Promise<V[]>
+
+  /**
+   * The items of the batch being collected, by id.
+   */
+  private items = new Map<string, K>()
+
+  /**
+   * The pending loads of the batch being collected, by id.
+   */
+  private loads = new Map<string, PendingLoad<V>>()
+
+  /**
+   * The timer that sends the batch being collected at the end of the window.
+   */
+  private timeout?: ReturnType<typeof setTimeout>
+
+  /**
+   * Creates a batcher.
+   *
+   * @param batchFunction - Loads the values of a batch of distinct items, in the same order.
+   * @param options - The resolved batching options.
+   */
+  constructor(
+    batchFunction: (items: K[]) => Promise<V[]>,
+    options: Required<KeyvUpstashBatchingOptions>
+  ) {
+    this.batchFunction = batchFunction
+    this.options = options
+  }
+
+  /**
+   * Adds an item to the current batch.
+   *
+   * @param id - Identifies the item, loads of the same id in a batch are de-duplicated.
+   * @param item - The item to load.
+   * @returns The loaded value, once the batch has been sent.
+   */
+  load(id: string, item: K): Promise<V> {
+    const existing = this.loads.get(id)
+    if (existing) return existing.promise
+
+    let resolve!: (value: V) => void
+    let reject!: (error: unknown) => void
+    const promise = new Promise<V>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+    this.items.set(id, item)
+    this.loads.set(id, { promise, resolve, reject })
+
+    if (this.items.size >= this.options.maxBatchSize) {
+      this.dispatch()
+    } else {
+      this.timeout ??= setTimeout(() => this.dispatch(), this.options.window)
+    }
+
+    return promise
+  }
+
+  /**
+   * Sends the current batch and starts a new one.
+   */
+  private dispatch(): void {
+    clearTimeout(this.timeout)
+    this.timeout = undefined
+
+    const items = [...this.items.values()]
+    const loads = [...this.loads.values()]
+    this.items = new Map()
+    this.loads = new Map()
+
+    this.batchFunction(items).then(
+      (values) => {
+        for (const [i, load] of loads.entries()) {
+          load.resolve(values[i])
+        }
+      },
+      (error) => {
+        for (const load of loads) {
+          load.reject(error)
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Options for splitting `setMany`, `getMany`, `hasMany` and `deleteMany` into several requests, so that large
+ * batches stay within the request size and command limits of Upstash Redis.
+ *
+ * @typedef {Object} KeyvUpstashChunkingOptions
+ *
+ * @property {number} [maxKeys=1000] - The maximum number of keys sent in a single request.
+ * @property {number} [maxBytes=1000000] - About how many bytes of keys and values are sent in a single request.
+ * A single entry larger than that is sent on its own.
+ * @property {number} [concurrency=4] - The maximum number of requests of an operation sent at the same time.
+ */
+export type KeyvUpstashChunkingOptions = {
+  maxKeys?: number
+  maxBytes?: number
+  concurrency?: number
+}
+
+/**
+ * Resolves the chunking option passed to the constructor into a complete set of options.
+ * Chunking is enabled by default.
+ *
+ * @param option - `false` to disable chunking, `true` to use the defaults, or the chunking options.
+ * @returns The resolved options, or `undefined` if chunking is disabled.
+ * @throws {Error} Throws an error if `maxKeys`, `maxBytes` or `concurrency` is not a positive integer.
+ */
+export function resolveChunkingOptions(
+  option: boolean | KeyvUpstashChunkingOptions | undefined
+): Required<KeyvUpstashChunkingOptions> | undefined {
+  if (option === false) return undefined
+
+  const options = option === true || option === undefined ? {} : option
+  const resolved = {
+    maxKeys: options.maxKeys ?? 1000,
+    maxBytes: options.maxBytes ?? 1_000_000,
+    concurrency: options.concurrency ?? 4,
+  }
+  for (const [name, value] of Object.entries(resolved)) {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`The ${name} of chunking must be a positive integer`)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Splits items into consecutive chunks of at most `maxKeys` items and about `maxBytes` bytes.
+ *
+ * @param sizes - The estimated size of each item, in bytes.
+ * @param options - The resolved chunking options.
+ * @returns The indexes of the items of each chunk, in order.
+ */
+export function splitIntoChunks(
+  sizes: number[],
+  { maxKeys, maxBytes }: Required<KeyvUpstashChunkingOptions>
+): number[][] {
+  const chunks: number[][] = []
+  let chunk: number[] = []
+  let bytes = 0
+
+  for (const [i, size] of sizes.entries()) {
+    if (
+      chunk.length > 0 &&
+      (chunk.length >= maxKeys || bytes + size > maxBytes)
+    ) {
+      chunks.push(chunk)
+      chunk = []
+      bytes = 0
+    }
+
+    chunk.push(i)
+    bytes += size
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk)
+  }
+
+  return chunks
+}
+
+/**
+ * Runs a function on every item with at most `concurrency` calls pending at the same time.
+ *
+ * @param items - The items.
+ * @param concurrency - The maximum number of pending calls.
+ * @param run - The function to run on each item.
+ */
+export async function runConcurrently<I>(
+  items: I[],
+  concurrency: number,
+  run: (item: I) => Promise<void>
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await run(items[next++])
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  )
+}
+
+/**
+ * The error thrown when some of the requests of a bulk operation split into chunks failed. The other requests are
+ * still sent. With the `open` fail mode, the errors of the failed requests are emitted instead.
+ *
+ * @template R - The type of the result of each key.
+ */
+export class KeyvUpstashBulkError<R = unknown> extends Error {
+  /**
+   * The name of the operation.
+   */
+  readonly operation: string
+
+  /**
+   * The keys of the requests that failed, without the namespace prefix.
+   */
+  readonly keys: string[]
+
+  /**
+   * The errors of the requests that failed.
+   */
+  readonly errors: unknown[]
+
+  /**
+   * The result of each key of the operation, in order: the ones of the requests that succeeded, and a miss or
+   * `false` for the keys of the requests that failed. For `deleteMany`, whether any key of its request was deleted.
+   */
+  readonly results: R[]
+
+  /**
+   * Creates an error.
+   *
+   * @param operation - The name of the operation.
+   * @param keys - The keys of the requests that failed.
+   * @param errors - The errors of the requests that failed.
+   * @param results - The result of each key of the operation.
+   */
+  constructor(
+    operation: string,
+    keys: string[],
+    errors: unknown[],
+    results: R[]
+  ) {
+    super(
+      `${operation} failed for ${keys.length} of ${results.length} keys: ${String(errors[0])}`,
+      { cause: errors[0] }
+    )
+    this.name = "KeyvUpstashBulkError"
+    this.operation = operation
+    this.keys = keys
+    this.errors = errors
+    this.results = results
+  }
+}
@@ -0,0 +1,123 @@
+import { promisify } from "util"
+import zlib from "zlib"
+
+/**
+ * The compression algorithms supported by the adapter.
+ */
+export type KeyvUpstashCompressionAlgorithm = "gzip" | "deflate" | "brotli"
+
+/**
+ * Options for compressing values before they are sent to Upstash Redis.
+ *
+ * @typedef {Object} KeyvUpstashCompressionOptions
+ *
+ * @property {KeyvUpstashCompressionAlgorithm} [algorithm="gzip"] - The algorithm used to compress new values.
+ * @property {number} [threshold=1024] - The minimum size of a value, in bytes, before it gets compressed.
+ */
+export type KeyvUpstashCompressionOptions = {
+  algorithm?: KeyvUpstashCompressionAlgorithm
+  threshold?: number
+}
+
+/**
+ * Prefix of every compressed value. It starts with a NUL character so it can never collide with a value
+ * serialized by Keyv (JSON) and it is not valid JSON, so clients with `automaticDeserialization` enabled return it as is.
+ */
+const COMPRESSED_VALUE_PREFIX = "\u0000kvz:"
+
+const algorithmIds: Record<KeyvUpstashCompressionAlgorithm, string> = {
+  gzip: "gz",
+  deflate: "df",
+  brotli: "br",
+}
+
+const compressors: Record<string, (buffer: Buffer) => Promise<Buffer>> = {
+  gz: promisify(zlib.gzip),
+  df: promisify(zlib.deflate),
+  br: promisify(zlib.brotliCompress),
+}
+
+const decompressors: Record<string, (buffer: Buffer) => Promise<Buffer>> = {
+  gz: promisify(zlib.gunzip),
+  df: promisify(zlib.inflate),
+  br: promisify(zlib.brotliDecompress),
+}
+
+/**
+ * Resolves the compression option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the compression options.
+ * @returns The resolved options, or `undefined` if compression is disabled.
+ */
+export function resolveCompressionOptions(
+  option: boolean | KeyvUpstashCompressionOptions | undefined
+): Required<KeyvUpstashCompressionOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    algorithm: options.algorithm ?? "gzip",
+    threshold: options.threshold ?? 1024,
+  }
+}
+
+/**
+ * Checks if a value read from Upstash Redis has been compressed by the adapter.
+ *
+ * @param value - The raw value read from Upstash Redis.
+ */
+export function isCompressedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(COMPRESSED_VALUE_PREFIX)
+}
+
+/**
+ * Compresses a value if it is a string that is at least as large as the configured threshold.
+ * Values that do not shrink by compressing them are returned as is.
+ *
+ * @param value - The value to compress.
+ * @param options - The resolved compression options.
+ * @returns The compressed value prefixed with the compression marker, or the original value.
+ */
+export async function compressValue(
+  value: any,
+  options: Required<KeyvUpstashCompressionOptions>
+): Promise<any> {
+  if (typeof value !== "string") return value
+
+  const size = Buffer.byteLength(value)
+  if (size < options.threshold) return value
+
+  const id = algorithmIds[options.algorithm]
+  const compressed = await compressors[id](Buffer.from(value))
+  const result = `${COMPRESSED_VALUE_PREFIX}${id}:${compressed.toString("base64")}`
+
+  // The compressed value is ASCII, so its length is its size in bytes.
+  return result.length < size ? result : value
+}
+
+/**
+ * Decompresses a value previously compressed with `compressValue`. Other values are returned as is,
+ * which keeps values written before compression was enabled readable.
+ *
+ * @param value - The raw value read from Upstash Redis.
+ * @returns The decompressed value.
+ *
+ * @throws {Error} Throws an error if the value was compressed with an unknown algorithm.
+ */
+export async function decompressValue(value: unknown): Promise<unknown> {
+  if (!isCompressedValue(value)) return value
+
+  const separatorIndex = value.indexOf(":", COMPRESSED_VALUE_PREFIX.length)
+  const id = value.slice(COMPRESSED_VALUE_PREFIX.length, separatorIndex)
+  const decompress = decompressors[id]
+  if (!decompress) {
+    throw new Error(`Unknown compression algorithm "${id}"`)
+  }
+
+  const buffer = await decompress(
+    Buffer.from(value.slice(separatorIndex + 1), "base64")
+  )
+
+  return buffer.toString()
+}
@@ -0,0 +1,190 @@
+import crypto from "crypto"
+
+/**
+ * A key used to encrypt and decrypt values.
+ *
+ * @typedef {Object} KeyvUpstashEncryptionKey
+ *
+ * @property {string} id - A unique identifier of the key. It is stored with every encrypted value and can not contain `:`.
+ * @property {string | Buffer} key - The 256-bit key, either as a Buffer or as a base64 encoded string.
+ */
+export type KeyvUpstashEncryptionKey = {
+  id: string
+  key: string | Buffer
+}
+
+/**
+ * Options for encrypting values before they are sent to Upstash Redis.
+ *
+ * @typedef {Object} KeyvUpstashEncryptionOptions
+ *
+ * @property {Array<KeyvUpstashEncryptionKey>} keys - The keys that can be used to decrypt values.
+ * @property {string} [currentKeyId] - The id of the key used to encrypt new values. Defaults to the id of the first key.
+ */
+export type KeyvUpstashEncryptionOptions = {
+  keys: KeyvUpstashEncryptionKey[]
+  currentKeyId?: string
+}
+
+/**
+ * Prefix of every encrypted value, followed by the key id, a colon and the base64 encoded payload.
+ */
+const ENCRYPTED_VALUE_PREFIX = "\u0000kve:"
+
+const ALGORITHM = "aes-256-gcm"
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * Converts an encryption key into a Buffer.
+ *
+ * @param key - The key to convert.
+ * @returns The key as a Buffer.
+ */
+function toKeyBuffer(key: string | Buffer): Buffer {
+  return typeof key === "string" ? Buffer.from(key, "base64") : key
+}
+
+/**
+ * Finds the key with the given id.
+ *
+ * @param options - The resolved encryption options.
+ * @param id - The id of the key.
+ * @returns The key as a Buffer.
+ *
+ * @throws {Error} Throws an error if there is no key with the given id.
+ */
+function findKey(
+  options: Required<KeyvUpstashEncryptionOptions>,
+  id: string
+): Buffer {
+  const entry = options.keys.find((key) => key.id === id)
+  if (!entry) {
+    throw new Error(`Unknown encryption key "${id}"`)
+  }
+
+  return toKeyBuffer(entry.key)
+}
+
+/**
+ * Validates the encryption option passed to the constructor and resolves it into a complete set of options.
+ *
+ * @param option - The encryption options.
+ * @returns The resolved options, or `undefined` if encryption is disabled.
+ *
+ * @throws {Error} Throws an error if there are no keys, a key is invalid or the current key does not exist.
+ */
+export function resolveEncryptionOptions(
+  option: KeyvUpstashEncryptionOptions | undefined
+): Required<KeyvUpstashEncryptionOptions> | undefined {
+  if (!option) return undefined
+
+  if (option.keys.length === 0) {
+    throw new Error("At least one encryption key is required")
+  }
+
+  for (const { id, key } of option.keys) {
+    if (!id || id.includes(":")) {
+      throw new Error(`Invalid encryption key id "${id}"`)
+    }
+    if (toKeyBuffer(key).length !== 32) {
+      throw new Error(`Encryption key "${id}" must be 256 bits long`)
+    }
+  }
+
+  const resolved = {
+    keys: [...option.keys],
+    currentKeyId: option.currentKeyId ?? option.keys[0].id,
+  }
+  findKey(resolved, resolved.currentKeyId)
+
+  return resolved
+}
+
+/**
+ * Checks if a value read from Upstash Redis has been encrypted by the adapter.
+ *
+ * @param value - The raw value read from Upstash Redis.
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_VALUE_PREFIX)
+}
+
+/**
+ * Gets the id of the key an encrypted value was encrypted with.
+ *
+ * @param value - The encrypted value.
+ * @returns The key id.
+ */
+export function getEncryptionKeyId(value: string): string {
+  return value.slice(
+    ENCRYPTED_VALUE_PREFIX.length,
+    value.indexOf(":", ENCRYPTED_VALUE_PREFIX.length)
+  )
+}
+
+/**
+ * Encrypts a value with the current key using AES-256-GCM.
+ * Values that are not strings are serialized the same way the Upstash client serializes them.
+ *
+ * @param value - The value to encrypt.
+ * @param options - The resolved encryption options.
+ * @returns The encrypted value prefixed with the encryption marker and the key id.
+ */
+export function encryptValue(
+  value: any,
+  options: Required<KeyvUpstashEncryptionOptions>
+): string {
+  const plaintext = typeof value === "string" ? value : JSON.stringify(value)
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv(
+    ALGORITHM,
+    findKey(options, options.currentKeyId),
+    iv
+  )
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ])
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+
+  return `${ENCRYPTED_VALUE_PREFIX}${options.currentKeyId}:${payload.toString("base64")}`
+}
+
+/**
+ * Decrypts a value previously encrypted with `encryptValue`. Other values are returned as is,
+ * which keeps values written before encryption was enabled readable.
+ *
+ * @param value - The raw value read from Upstash Redis.
+ * @param options - The resolved encryption options.
+ * @returns The decrypted value.
+ *
+ * @throws {Error} Throws an error if encryption is not configured, the key is unknown or the value has been tampered with.
+ */
+export function decryptValue(
+  value: unknown,
+  options: Required<KeyvUpstashEncryptionOptions> | undefined
+): unknown {
+  if (!isEncryptedValue(value)) return value
+
+  if (!options) {
+    throw new Error("Can not decrypt a value without encryption options")
+  }
+
+  const id = getEncryptionKeyId(value)
+  const payload = Buffer.from(
+    value.slice(ENCRYPTED_VALUE_PREFIX.length + id.length + 1),
+    "base64"
+  )
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    findKey(options, id),
+    payload.subarray(0, IV_LENGTH)
+  )
+  decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH))
+
+  return Buffer.concat([
+    decipher.update(payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]).toString("utf8")
+}
@@ -1,7 +1,193 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { randomUUID } from "crypto"
+import { isDeepStrictEqual } from "util"
 import EventEmitter from "events"
+import { Readable } from "stream"
 import { RedisConfigNodejs, Redis } from "@upstash/redis"
 import { type KeyvStoreAdapter } from "keyv"
 import { MergeExclusive, RequiredKeysOf } from "type-fest"
+import {
+  KeyvUpstashBulkError,
+  KeyvUpstashChunkingOptions,
+  resolveChunkingOptions,
+  runConcurrently,
+  splitIntoChunks,
+} from "./chunking"
+import {
+  compressValue,
+  decompressValue,
+  KeyvUpstashCompressionOptions,
+  resolveCompressionOptions,
+} from "./compression"
+import {
+  decryptValue,
+  encryptValue,
+  getEncryptionKeyId,
+  isEncryptedValue,
+  KeyvUpstashEncryptionOptions,
+  resolveEncryptionOptions,
+} from "./encryption"
+import {
+  KeyvUpstashExportRecord,
+  KeyvUpstashImportOptions,
+  KeyvUpstashImportProgress,
+  KeyvUpstashImportSource,
+  parseExportRecords,
+  serializeExportRecord,
+} from "./backup"
+import {
+  KeyvUpstashBatcher,
+  KeyvUpstashBatchingOptions,
+  resolveBatchingOptions,
+} from "./batcher"
+import {
+  createOperationMetrics,
+  KeyvUpstashMetrics,
+  KeyvUpstashMetricsOptions,
+  KeyvUpstashOperationEvent,
+  KeyvUpstashOperationStartEvent,
+  KeyvUpstashStats,
+  OperationMetrics,
+  resolveMetricsOptions,
+} from "./instrumentation"
+import {
+  KeyvUpstashChangeEvent,
+  KeyvUpstashChangesOptions,
+  KeyvUpstashChangeType,
+  KeyvUpstashJournalOptions,
+  parseJournalEntries,
+  resolveJournalOptions,
+  toJournalEntry,
+} from "./journal"
+import {
+  getPartKeys,
+  GET_MANIFESTS_SCRIPT,
+  isLargeValue,
+  KeyvUpstashLargeValuesOptions,
+  LargeValueManifest,
+  parseManifest,
+  PENDING_PART_TTL,
+  resolveLargeValuesOptions,
+  splitValue,
+  toManifest,
+} from "./large-values"
+import { KeyvUpstashLock, KeyvUpstashLockOptions } from "./lock"
+import {
+  getSize,
+  KeyvUpstashMemoryCache,
+  KeyvUpstashMemoryCacheOptions,
+  resolveMemoryCacheOptions,
+} from "./memory-cache"
+import {
+  isStale,
+  KeyvUpstashValueMetadata,
+  shouldRefreshEarly,
+  unwrapValue,
+  wrapValue,
+} from "./metadata"
+import {
+  KeyvUpstashRateLimit,
+  KeyvUpstashRateLimitOptions,
+  KeyvUpstashRateLimitResult,
+  RATE_LIMIT_SCRIPT,
+  resolveRateLimits,
+  toRateLimitResult,
+} from "./rate-limiter"
+import {
+  KeyvUpstashReadReplicasOptions,
+  KeyvUpstashReadRouter,
+  KeyvUpstashReplicaErrorEvent,
+  resolveReadReplicasOptions,
+} from "./replicas"
+import {
+  KeyvUpstashRebalanceOptions,
+  KeyvUpstashRebalanceResult,
+  KeyvUpstashShardingOptions,
+  KeyvUpstashShardRing,
+  resolveShardingOptions,
+} from "./sharding"
+import {
+  getRetryDelay,
+  KeyvUpstashCircuitBreaker,
+  KeyvUpstashCircuitBreakerOptions,
+  KeyvUpstashRetryEvent,
+  KeyvUpstashRetryOptions,
+  resolveCircuitBreakerOptions,
+  resolveRetryOptions,
+} from "./resilience"
+
+export type {
+  KeyvUpstashExportRecord,
+  KeyvUpstashImportMode,
+  KeyvUpstashImportOptions,
+  KeyvUpstashImportProgress,
+  KeyvUpstashImportSource,
+} from "./backup"
+export type { KeyvUpstashBatchingOptions } from "./batcher"
+export { KeyvUpstashBulkError } from "./chunking"
+export type { KeyvUpstashChunkingOptions } from "./chunking"
+export type {
+  KeyvUpstashCompressionAlgorithm,
+  KeyvUpstashCompressionOptions,
+} from "./compression"
+export type {
+  KeyvUpstashEncryptionKey,
+  KeyvUpstashEncryptionOptions,
+} from "./encryption"
+export { KeyvUpstashMetrics, traceKeyvUpstash } from "./instrumentation"
+export type {
+  KeyvUpstashLatencyHistogram,
+  KeyvUpstashMetricsOptions,
+  KeyvUpstashOperationEvent,
+  KeyvUpstashOperationStartEvent,
+  KeyvUpstashOperationStats,
+  KeyvUpstashSpan,
+  KeyvUpstashSpanAttributes,
+  KeyvUpstashStats,
+  KeyvUpstashTracer,
+} from "./instrumentation"
+export type {
+  KeyvUpstashChangeEvent,
+  KeyvUpstashChangesOptions,
+  KeyvUpstashChangeType,
+  KeyvUpstashJournalOptions,
+} from "./journal"
+export type { KeyvUpstashLargeValuesOptions } from "./large-values"
+export { KeyvUpstashLock } from "./lock"
+export type { KeyvUpstashLockOptions } from "./lock"
+export { KeyvUpstashMemoryCache } from "./memory-cache"
+export type {
+  KeyvUpstashMemoryCacheOptions,
+  KeyvUpstashMemoryCacheStats,
+} from "./memory-cache"
+export type { KeyvUpstashValueMetadata } from "./metadata"
+export type {
+  KeyvUpstashRateLimit,
+  KeyvUpstashRateLimitAlgorithm,
+  KeyvUpstashRateLimitOptions,
+  KeyvUpstashRateLimitResult,
+  KeyvUpstashRateLimitState,
+} from "./rate-limiter"
+export { KeyvUpstashReadRouter } from "./replicas"
+export type {
+  KeyvUpstashReadReplica,
+  KeyvUpstashReadReplicasOptions,
+  KeyvUpstashReplicaErrorEvent,
+} from "./replicas"
+export { KeyvUpstashCircuitBreaker } from "./resilience"
+export { KeyvUpstashShardRing, getHashTag } from "./sharding"
+export type {
+  KeyvUpstashRebalanceOptions,
+  KeyvUpstashRebalanceResult,
+  KeyvUpstashShard,
+  KeyvUpstashShardingOptions,
+} from "./sharding"
+export type {
+  KeyvUpstashCircuitBreakerOptions,
+  KeyvUpstashCircuitState,
+  KeyvUpstashRetryEvent,
+  KeyvUpstashRetryOptions,
+} from "./resilience"
 
 type RedisConfigNodejsRequiredKeys = Pick<
   RedisConfigNodejs,
@@ -15,6 +201,23 @@ type CommonOptions = {
   useUnlink?: boolean
   clearBatchSize?: number
   noNamespaceAffectsAll?: boolean
+  compression?: boolean | KeyvUpstashCompressionOptions
+  encryption?: KeyvUpstashEncryptionOptions
+  staleWhileRevalidate?: number
+  slidingExpiration?: boolean
+  useIndex?: boolean
+  storage?: KeyvUpstashStorage
+  memoryCache?: boolean | KeyvUpstashMemoryCacheOptions
+  batching?: boolean | KeyvUpstashBatchingOptions
+  retryPolicy?: boolean | KeyvUpstashRetryOptions
+  circuitBreaker?: boolean | KeyvUpstashCircuitBreakerOptions
+  failMode?: KeyvUpstashFailMode
+  metrics?: KeyvUpstashMetricsOptions
+  readReplicas?: KeyvUpstashReadReplicasOptions
+  sharding?: KeyvUpstashShardingOptions
+  journal?: boolean | KeyvUpstashJournalOptions
+  chunking?: boolean | KeyvUpstashChunkingOptions
+  largeValues?: boolean | KeyvUpstashLargeValuesOptions
 } & Omit<RedisConfigNodejs, keyof RedisConfigNodejsRequiredKeys>
 
 type OptionWithRedis = { upstashRedis: Redis } & CommonOptions
@@ -45,12 +248,71 @@ type OptionWithoutRedis = Pick<
  * @property {boolean} [useUnlink=true] - Whether to use the UNLINK command instead of DEL for deleting keys.
  * @property {number} [clearBatchSize=1000] - The number of keys to delete in a single batch when clearing the cache.
  * @property {boolean} [noNamespaceAffectsAll=false] - Whether to allow clearing all keys when no namespace is set.
+ * @property {boolean | KeyvUpstashCompressionOptions} [compression] - Whether to compress large values, or the compression options.
+ * @property {KeyvUpstashEncryptionOptions} [encryption] - The keys used to encrypt values with AES-256-GCM before writing them.
+ * @property {number} [staleWhileRevalidate] - For how long values with a TTL are kept and served as stale after they expire, in milliseconds.
+ * @property {boolean} [slidingExpiration=false] - Whether `get` and `getMany` restore the TTL of the values they read.
+ * @property {boolean} [useIndex=false] - Whether to keep an index of the keys of each namespace, so `clear()` and `iterator()` do not have to scan all keys.
+ * @property {KeyvUpstashStorage} [storage="string"] - Whether to store every key as a string key, or all the keys of a namespace in a single hash.
+ * @property {boolean | KeyvUpstashMemoryCacheOptions} [memoryCache] - Whether to keep recently read values in memory, or the memory cache options.
+ * @property {boolean | KeyvUpstashBatchingOptions} [batching] - Whether to coalesce concurrent `get` and `has` calls into batched requests, or the batching options.
+ * @property {boolean | KeyvUpstashRetryOptions} [retryPolicy] - Whether to retry failed operations with exponential backoff, or the retry options.
+ * @property {boolean | KeyvUpstashCircuitBreakerOptions} [circuitBreaker] - Whether to stop calling Upstash Redis for a while after repeated failures, or the circuit breaker options.
+ * @property {KeyvUpstashFailMode} [failMode="closed"] - Whether failed operations throw (`closed`) or emit an error and return a miss (`open`).
+ * @property {KeyvUpstashMetricsOptions} [metrics] - The buckets of the latency histograms returned by `stats()`.
+ * @property {KeyvUpstashReadReplicasOptions} [readReplicas] - The read replicas to send `get`, `getMany`, `has`, `hasMany` and `iterator()` reads to.
+ * @property {KeyvUpstashShardingOptions} [sharding] - The databases to distribute the keys across along with the primary client, with consistent hashing.
+ * @property {boolean | KeyvUpstashJournalOptions} [journal] - Whether to append the changes made through the adapter to a stream read by `changes()`, or the journal options.
+ * @property {boolean | KeyvUpstashChunkingOptions} [chunking=true] - Whether to split large `setMany`, `getMany`, `hasMany` and `deleteMany` calls into several requests, or the chunking options.
+ * @property {boolean | KeyvUpstashLargeValuesOptions} [largeValues] - Whether to split values larger than a threshold across several keys, or the large values options.
  */
 export type KeyvUpstashOptions = MergeExclusive<
   OptionWithRedis,
   OptionWithoutRedis
 >
 
+/**
+ * What happens when an operation fails: `closed` rejects the promise with the error, while `open` emits an `error`
+ * event and returns a miss, `false` or nothing instead.
+ */
+export type KeyvUpstashFailMode = "open" | "closed"
+
+/**
+ * The context emitted with an `error` event when an operation fails.
+ */
+export type KeyvUpstashErrorContext = {
+  /**
+   * The name of the method that failed.
+   */
+  operation: string
+  /**
+   * The keys of the operation.
+   */
+  keys: string[]
+}
+
+/**
+ * How keys are stored: `string` stores every key as a string key prefixed with the namespace,
+ * while `hash` stores all the keys of a namespace as the fields of a single hash.
+ */
+export type KeyvUpstashStorage = "string" | "hash"
+
+/**
+ * When a write happens: `nx` only creates keys that do not exist, while `xx` only updates keys that exist.
+ */
+export type KeyvUpstashSetMode = "nx" | "xx"
+
+export type KeyvUpstashSetOptions = {
+  /**
+   * Tags to associate the key with, so it can be deleted along with other keys by `invalidateTags`.
+   */
+  tags?: string[]
+  /**
+   * Only create the key if it does not exist (`nx`), or only update it if it exists (`xx`).
+   */
+  mode?: KeyvUpstashSetMode
+}
+
 export type KeyvUpstashEntry<T> = {
   /**
    * Key to set.
@@ -64,6 +326,766 @@ export type KeyvUpstashEntry<T> = {
    * Time to live in milliseconds.
    */
   ttl?: number
+  /**
+   * Tags to associate the key with.
+   */
+  tags?: string[]
+  /**
+   * Only create the key if it does not exist (`nx`), or only update it if it exists (`xx`).
+   */
+  mode?: KeyvUpstashSetMode
+}
+
+export type KeyvUpstashIncrementOptions = {
+  /**
+   * Time to live of the counter in milliseconds, set only when the counter is created. Defaults to `defaultTtl`.
+   */
+  ttl?: number
+}
+
+export type KeyvUpstashIncrementEntry = {
+  /**
+   * Key of the counter.
+   */
+  key: string
+  /**
+   * Amount to add to the counter, which may be negative or fractional. Defaults to 1.
+   */
+  by?: number
+  /**
+   * Time to live of the counter in milliseconds, set only when the counter is created. Defaults to `defaultTtl`.
+   */
+  ttl?: number
+}
+
+export type KeyvUpstashGetOrSetOptions = {
+  /**
+   * Time to live of the loaded value in milliseconds. Defaults to `defaultTtl`.
+   */
+  ttl?: number
+  /**
+   * Time to live of the lock taken while loading the value, in milliseconds. Defaults to 10 seconds.
+   */
+  lockTtl?: number
+  /**
+   * How long to wait for another caller to load the value before loading it anyway, in milliseconds. Defaults to `lockTtl`.
+   */
+  waitTimeout?: number
+  /**
+   * How often to check if another caller has loaded the value while waiting, in milliseconds. Defaults to 50.
+   */
+  pollInterval?: number
+  /**
+   * Enables probabilistic early refreshes (XFetch) of values before they get stale: values greater than 1 favor
+   * earlier refreshes, values smaller than 1 favor later ones. Disabled by default.
+   */
+  beta?: number
+  /**
+   * Tags to associate the key with when the value is loaded.
+   */
+  tags?: string[]
+}
+
+/**
+ * Where the keys of a namespace are stored: the namespace and the separator between it and the keys.
+ */
+export type KeyvUpstashNamespaceLocation = {
+  /**
+   * The namespace, or `undefined` for the keys without a namespace.
+   */
+  namespace?: string
+  /**
+   * The separator between the namespace and the keys. Defaults to `keyPrefixSeparator`.
+   */
+  separator?: string
+}
+
+export type KeyvUpstashMigrationOptions = {
+  /**
+   * Where the keys are stored now.
+   */
+  from: KeyvUpstashNamespaceLocation
+  /**
+   * Where to move the keys.
+   */
+  to: KeyvUpstashNamespaceLocation
+  /**
+   * Only report the keys that would be moved, without moving them.
+   */
+  dryRun?: boolean
+  /**
+   * Replace the keys that already exist under their new name. By default, they are skipped and their old name is kept.
+   */
+  overwrite?: boolean
+  /**
+   * How many keys to scan and move per round trip. Defaults to `clearBatchSize`.
+   */
+  batchSize?: number
+}
+
+/**
+ * The number of keys moved by `migrateNamespace`, or that would be moved in a dry run.
+ */
+export type KeyvUpstashMigrationResult = {
+  /**
+   * The number of keys moved to their new name.
+   */
+  migrated: number
+  /**
+   * The number of keys not moved because their new name already exists.
+   */
+  skipped: number
+  /**
+   * The number of keys left in place because they do not belong to the source namespace: when it has no namespace,
+   * the keys whose name contains the separator, which belong to a namespace.
+   */
+  ignored: number
+}
+
+/**
+ * The payload of the `migration-progress` event, emitted by `migrateNamespace` after every batch.
+ */
+export type KeyvUpstashMigrationProgressEvent = KeyvUpstashMigrationResult & {
+  /**
+   * The old and new names of the keys moved in the batch (or that would be moved, in a dry run).
+   */
+  renamed: Array<{ from: string; to: string }>
+}
+
+export type KeyvUpstashIteratorOptions = {
+  /**
+   * How many keys to read per round trip, passed as the `COUNT` hint of the scan. Defaults to `clearBatchSize`.
+   */
+  pageSize?: number
+  /**
+   * A glob-style pattern the keys must match, without the namespace prefix (e.g. `user:*`).
+   */
+  match?: string
+  /**
+   * Only read the keys, without their values: the entries have an `undefined` value.
+   */
+  keysOnly?: boolean
+  /**
+   * Read the remaining TTL of each key, in milliseconds (`Infinity` if it does not expire), as the third item of the entries.
+   */
+  withTtl?: boolean
+  /**
+   * A signal to stop iterating: the iterator throws the signal's reason once it is aborted.
+   */
+  signal?: AbortSignal
+  /**
+   * The `cursor` of a previous iterator, to resume iterating where it stopped.
+   */
+  startCursor?: string
+}
+
+/**
+ * An entry yielded by `iterator()`: the key and its value.
+ */
+export type KeyvUpstashIteratorEntry<U> = [key: string, value: U | undefined]
+
+/**
+ * An entry yielded by `iterator()` with the `withTtl` option: the key, its value and its remaining TTL in milliseconds.
+ */
+export type KeyvUpstashIteratorEntryWithTtl<U> = [
+  key: string,
+  value: U | undefined,
+  ttl: number,
+]
+
+/**
+ * An async iterator that exposes the cursor to resume iterating from, in another process if needed.
+ * The cursor only moves once all the entries of a page have been consumed, so a resumed iteration may yield again
+ * the entries of the page that was being consumed. It is `0` both before the first page is consumed and once the
+ * iteration is complete, which `done` tells apart.
+ */
+export type KeyvUpstashIterator<V> = AsyncGenerator<V, void, unknown> & {
+  readonly cursor: string
+  /**
+   * Whether every entry has been yielded, in which case there is nothing left to resume.
+   */
+  readonly done: boolean
+}
+
+/**
+ * A key read by a batched `get` or `has` call, with the namespace that was set when the call was made.
+ */
+type BatchedKey = {
+  key: string
+  namespace?: string
+  shard?: number
+}
+
+/**
+ * Options of an operation executed against Upstash Redis.
+ */
+type ExecuteOptions<R> = {
+  /**
+   * Whether the operation can be retried safely. Defaults to `true`.
+   */
+  idempotent?: boolean
+  /**
+   * Returns the result of the operation if it fails and `failMode` is `open`. Operations without a fallback always throw.
+   */
+  fallback?: () => R
+}
+
+/**
+ * A value that has been encoded and is ready to be written to the store.
+ * The key is the prefixed key, or the field of the namespace hash in hash storage.
+ */
+type PreparedWrite = {
+  key: string
+  value: any
+  px?: number
+  tags?: string[]
+  /**
+   * The condition of the write, if any: `nx` and `xx` check whether the key exists, `value` compares the current
+   * raw value with `expected` and `version` compares the current version with `expected`.
+   */
+  condition?: KeyvUpstashSetMode | "value" | "version"
+  expected?: string
+  /**
+   * The parts of a large value, written before the write whose value is their manifest.
+   */
+  parts?: { manifest: LargeValueManifest; values: string[] }
+}
+
+/**
+ * A page of keys scanned by `iterator()`, with the cursor of the next page. In hash storage, the keys are the fields
+ * of the namespace hash and their raw values are scanned along with them.
+ */
+type ScannedPage = {
+  keys: string[]
+  values?: unknown[]
+  cursor: string
+}
+
+/**
+ * Where a scan starts, how many keys it reads per round trip and which keys it matches.
+ */
+type ScanOptions = {
+  cursor?: string
+  count?: number
+  match?: string
+}
+
+/**
+ * The operations whose reads are sent to the read replicas, if any.
+ */
+const REPLICA_OPERATIONS = new Set([
+  "get",
+  "getMany",
+  "has",
+  "hasMany",
+  "iterator",
+])
+
+/**
+ * Prefix of the keys used internally by the adapter, e.g. for locks. It comes right after the namespace.
+ */
+const INTERNAL_KEY_PREFIX = "__keyv_upstash"
+
+/**
+ * Score of the keys that do not expire in the namespace index, which is scored by expiry time.
+ */
+const NO_EXPIRY_SCORE = Number.MAX_SAFE_INTEGER
+
+/**
+ * Lua function that adds a key to the tag sets in KEYS from index `first`, making sure the TTL of every tag set is
+ * at least the TTL of the key, so tag sets expire once all their keys have expired. `ttl` is in milliseconds, or -1
+ * if the key does not expire.
+ */
+const ADD_TO_TAGS_FUNCTION = `
+local function addToTags(first, key, ttl)
+  for i = first, #KEYS do
+    local tag = KEYS[i]
+    local current = redis.call("PTTL", tag)
+    redis.call("SADD", tag, key)
+    if ttl < 0 then
+      if current ~= -1 then
+        redis.call("PERSIST", tag)
+      end
+    elseif current == -2 or (current >= 0 and current < ttl) then
+      redis.call("PEXPIRE", tag, ttl)
+    end
+  end
+end
+`
+
+/**
+ * Lua script that adds a key to tag sets (see `ADD_TO_TAGS_FUNCTION`).
+ * KEYS are the tag sets, ARGV[1] is the key and ARGV[2] its TTL in milliseconds, or -1 if it does not expire.
+ */
+const ADD_TO_TAGS_SCRIPT = `${ADD_TO_TAGS_FUNCTION}
+addToTags(1, ARGV[1], tonumber(ARGV[2]))
+return 0
+`
+
+/**
+ * Lua script that removes tag sets and returns all their keys.
+ * KEYS are the tag sets. Returns the keys of all the tag sets, which may contain duplicates.
+ */
+const TAKE_TAGGED_KEYS_SCRIPT = `
+local keys = {}
+for _, tag in ipairs(KEYS) do
+  for _, key in ipairs(redis.call("SMEMBERS", tag)) do
+    table.insert(keys, key)
+  end
+  redis.call("DEL", tag)
+end
+return keys
+`
+
+/**
+ * Lua script that replaces the values of the given keys only if they have not changed since they were read, keeping their TTL.
+ * KEYS are the keys to update, ARGV holds the expected value followed by the new value for each key.
+ * Returns the number of updated keys.
+ */
+const REPLACE_UNCHANGED_SCRIPT = `
+local updated = 0
+for i, key in ipairs(KEYS) do
+  if redis.call("GET", key) == ARGV[i * 2 - 1] then
+    redis.call("SET", key, ARGV[i * 2], "KEEPTTL")
+    updated = updated + 1
+  end
+end
+return updated
+`
+
+/**
+ * Lua script that increments counters, setting their TTL and adding them to the namespace index only when they are created.
+ * KEYS are the counters, followed by the namespace index if ARGV[2] is "1". ARGV[1] is the current time in milliseconds,
+ * then ARGV holds the command (`INCRBY` or `INCRBYFLOAT`), the increment and the TTL in milliseconds (-1 if the
+ * counter does not expire) for each counter. Returns the new values of the counters.
+ */
+const INCREMENT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local count = #KEYS
+local index
+if ARGV[2] == "1" then
+  index = KEYS[count]
+  count = count - 1
+end
+local values = {}
+for i = 1, count do
+  local ttl = tonumber(ARGV[i * 3 + 2])
+  local created = redis.call("EXISTS", KEYS[i]) == 0
+  values[i] = redis.call(ARGV[i * 3], KEYS[i], ARGV[i * 3 + 1])
+  if created then
+    if ttl >= 0 then
+      redis.call("PEXPIRE", KEYS[i], ttl)
+    end
+    if index then
+      redis.call("ZADD", index, ttl >= 0 and now + ttl or ${NO_EXPIRY_SCORE}, KEYS[i])
+    end
+  end
+end
+return values
+`
+
+/**
+ * Lua script that increments counters stored as fields of a namespace hash, removing them first if they have expired,
+ * and setting their expiry time only when they are created.
+ * KEYS[1] is the hash and KEYS[2] the sorted set of its fields scored by expiry time, ARGV[1] is the current time in
+ * milliseconds, then ARGV holds the field, the command (`HINCRBY` or `HINCRBYFLOAT`), the increment and the TTL in
+ * milliseconds (-1 if the counter does not expire) for each counter. Returns the new values of the counters.
+ */
+const INCREMENT_FIELDS_SCRIPT = `
+local now = tonumber(ARGV[1])
+local values = {}
+for i = 2, #ARGV, 4 do
+  local field = ARGV[i]
+  local ttl = tonumber(ARGV[i + 3])
+  local expiresAt = redis.call("ZSCORE", KEYS[2], field)
+  if expiresAt and tonumber(expiresAt) <= now then
+    redis.call("HDEL", KEYS[1], field)
+    redis.call("ZREM", KEYS[2], field)
+  end
+  local created = redis.call("HEXISTS", KEYS[1], field) == 0
+  table.insert(values, redis.call(ARGV[i + 1], KEYS[1], field, ARGV[i + 2]))
+  if created and ttl >= 0 then
+    redis.call("ZADD", KEYS[2], now + ttl, field)
+  end
+end
+return values
+`
+
+/**
+ * Lua function that reads the TTL a value was set with from its metadata (see `wrapValue`), defaulting to ARGV[2].
+ * Returns -1 if the value has no TTL to restore.
+ */
+const SLIDING_TTL_FUNCTION = `
+local function slidingTtl(value)
+  local ttl = tonumber(ARGV[2])
+  if string.sub(value, 1, 5) == "\\0kvm:" then
+    local header = string.sub(value, 1, (string.find(value, "\\n", 1, true)))
+    ttl = tonumber(string.match(header, '"ttl":(%d+)')) or ttl
+  end
+  return ttl
+end
+`
+
+/**
+ * Lua script that restores the TTL of the given keys, for `slidingExpiration`. Keys that do not expire are left as they are.
+ * KEYS are the keys, followed by the namespace index if ARGV[3] is "1". ARGV[1] is the current time in milliseconds
+ * and ARGV[2] the TTL restored for values without metadata, or -1.
+ */
+const SLIDE_SCRIPT = `${SLIDING_TTL_FUNCTION}
+local now = tonumber(ARGV[1])
+local count = #KEYS
+local index
+if ARGV[3] == "1" then
+  index = KEYS[count]
+  count = count - 1
+end
+for i = 1, count do
+  local value = redis.call("GET", KEYS[i])
+  if value and redis.call("PTTL", KEYS[i]) >= 0 then
+    local ttl = slidingTtl(value)
+    if ttl >= 0 then
+      redis.call("PEXPIRE", KEYS[i], ttl)
+      if index and redis.call("ZSCORE", index, KEYS[i]) then
+        redis.call("ZADD", index, now + ttl, KEYS[i])
+      end
+    end
+  end
+end
+return 0
+`
+
+/**
+ * Lua script that restores the TTL of the given fields of a namespace hash, for `slidingExpiration`.
+ * Fields that do not expire are left as they are.
+ * KEYS[1] is the hash and KEYS[2] the sorted set of its fields scored by expiry time, ARGV[1] is the current time
+ * in milliseconds, ARGV[2] the TTL restored for values without metadata, or -1, and the rest of ARGV are the fields.
+ */
+const SLIDE_FIELDS_SCRIPT = `${SLIDING_TTL_FUNCTION}
+local now = tonumber(ARGV[1])
+for i = 3, #ARGV do
+  local expiresAt = redis.call("ZSCORE", KEYS[2], ARGV[i])
+  local value = redis.call("HGET", KEYS[1], ARGV[i])
+  if expiresAt and tonumber(expiresAt) > now and value then
+    local ttl = slidingTtl(value)
+    if ttl >= 0 then
+      redis.call("ZADD", KEYS[2], now + ttl, ARGV[i])
+    end
+  end
+end
+return 0
+`
+
+/**
+ * Lua script that sets or removes the TTL of a key if it exists, updating its score in the namespace index.
+ * KEYS[1] is the key, optionally followed by the namespace index. ARGV[1] is the TTL in milliseconds, or -1 to
+ * remove it, and ARGV[2] the current time in milliseconds. Returns 1 if the key exists, 0 otherwise.
+ */
+const UPDATE_TTL_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return 0
+end
+local ttl = tonumber(ARGV[1])
+if ttl < 0 then
+  redis.call("PERSIST", KEYS[1])
+else
+  redis.call("PEXPIRE", KEYS[1], ttl)
+end
+if KEYS[2] then
+  redis.call("ZADD", KEYS[2], ttl < 0 and ${NO_EXPIRY_SCORE} or tonumber(ARGV[2]) + ttl, KEYS[1])
+end
+return 1
+`
+
+/**
+ * Lua script that sets or removes the expiry time of a field of a namespace hash if it exists.
+ * KEYS[1] is the hash and KEYS[2] the sorted set of its fields scored by expiry time. ARGV[1] is the field,
+ * ARGV[2] the TTL in milliseconds, or -1 to remove it, and ARGV[3] the current time in milliseconds.
+ * Returns 1 if the field exists, 0 otherwise.
+ */
+const UPDATE_FIELD_TTL_SCRIPT = `
+local now = tonumber(ARGV[3])
+local expiresAt = redis.call("ZSCORE", KEYS[2], ARGV[1])
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 0 or (expiresAt and tonumber(expiresAt) <= now) then
+  return 0
+end
+local ttl = tonumber(ARGV[2])
+if ttl < 0 then
+  redis.call("ZREM", KEYS[2], ARGV[1])
+else
+  redis.call("ZADD", KEYS[2], now + ttl, ARGV[1])
+end
+return 1
+`
+
+/**
+ * Lua function that checks the condition of a conditional write against the current raw value (false if it does
+ * not exist). ARGV[1] is the condition (`nx`, `xx`, `value` or `version`) and ARGV[2] the expected value or version.
+ * Values without a version in their metadata (see `wrapValue`) are at version 1, and missing values at version 0.
+ */
+const MATCHES_CONDITION_FUNCTION = `
+local function matchesCondition(current)
+  local condition = ARGV[1]
+  if condition == "nx" then
+    return not current
+  elseif condition == "xx" then
+    return current ~= false
+  elseif condition == "value" then
+    return current == ARGV[2]
+  end
+  local version = 0
+  if current then
+    version = 1
+    if string.sub(current, 1, 5) == "\\0kvm:" then
+      local header = string.sub(current, 1, (string.find(current, "\\n", 1, true)))
+      version = tonumber(string.match(header, '"version":(%d+)')) or 1
+    end
+  end
+  return version == tonumber(ARGV[2])
+end
+`
+
+/**
+ * Lua script that sets a key only if a condition on its current value holds (see `MATCHES_CONDITION_FUNCTION`),
+ * and adds it to the namespace index and its tag sets in the same script, so the key is never written without them.
+ * KEYS[1] is the key, followed by the namespace index if ARGV[5] is not empty, and by the tag sets. ARGV[3] is the
+ * new value, ARGV[4] its TTL in milliseconds, or -1 if it does not expire, and ARGV[5] its score in the index.
+ * Returns 1 if the key was set, 0 otherwise.
+ */
+const CONDITIONAL_SET_SCRIPT = `${MATCHES_CONDITION_FUNCTION}${ADD_TO_TAGS_FUNCTION}
+if not matchesCondition(redis.call("GET", KEYS[1])) then
+  return 0
+end
+if tonumber(ARGV[4]) >= 0 then
+  redis.call("SET", KEYS[1], ARGV[3], "PX", ARGV[4])
+else
+  redis.call("SET", KEYS[1], ARGV[3])
+end
+local firstTag = 2
+if ARGV[5] ~= "" then
+  redis.call("ZADD", KEYS[2], ARGV[5], KEYS[1])
+  firstTag = 3
+end
+addToTags(firstTag, KEYS[1], tonumber(ARGV[4]))
+return 1
+`
+
+/**
+ * Lua script that sets a field of a namespace hash only if a condition on its current value holds
+ * (see `MATCHES_CONDITION_FUNCTION`), and adds it to its tag sets. Fields that have expired are considered missing.
+ * KEYS[1] is the hash and KEYS[2] the sorted set of its fields scored by expiry time, followed by the tag sets.
+ * ARGV[3] is the field, ARGV[4] the new value, ARGV[5] its TTL in milliseconds, or -1 if it does not expire, and
+ * ARGV[6] the current time in milliseconds. Returns 1 if the field was set, 0 otherwise.
+ */
+const CONDITIONAL_SET_FIELD_SCRIPT = `${MATCHES_CONDITION_FUNCTION}${ADD_TO_TAGS_FUNCTION}
+local now = tonumber(ARGV[6])
+local current = redis.call("HGET", KEYS[1], ARGV[3])
+local expiresAt = redis.call("ZSCORE", KEYS[2], ARGV[3])
+if expiresAt and tonumber(expiresAt) <= now then
+  current = false
+end
+if not matchesCondition(current) then
+  return 0
+end
+redis.call("HSET", KEYS[1], ARGV[3], ARGV[4])
+if tonumber(ARGV[5]) >= 0 then
+  redis.call("ZADD", KEYS[2], now + tonumber(ARGV[5]), ARGV[3])
+else
+  redis.call("ZREM", KEYS[2], ARGV[3])
+end
+addToTags(3, ARGV[3], tonumber(ARGV[5]))
+return 1
+`
+
+/**
+ * Lua script that renames keys to the names of another namespace, keeping their TTL, and moves them between the
+ * namespace indexes. KEYS[1] and KEYS[2] are the source and target indexes and KEYS[3] the set of the keys moved by
+ * the migration, followed by pairs of source and target keys. ARGV[1] is "1" for a dry run, ARGV[2] "1" to overwrite
+ * existing target keys, ARGV[3] "1" to update the indexes, ARGV[4] the score of the keys that do not expire,
+ * ARGV[5] the current time in milliseconds and ARGV[6] "1" to add the new names of the keys to the set of moved keys.
+ * If values may be large, ARGV[7] and ARGV[8] are the prefixes of the keys of the parts in the source and target
+ * namespaces, and ARGV[9] and ARGV[10] their separators: the parts are renamed along with their manifest, and those
+ * of the overwritten values are deleted. Otherwise ARGV[7] is "".
+ * Returns, for each pair, 1 if the key was renamed, 0 if the target key exists and -1 if the source key does not.
+ */
+const MIGRATE_KEYS_SCRIPT = `
+local function readManifest(key)
+  local value = redis.call("GET", key)
+  if not value then
+    return nil
+  end
+  local start = 1
+  if string.sub(value, 1, 5) == "\\0kvm:" then
+    start = (string.find(value, "\\n", 1, true) or #value) + 1
+  end
+  if string.sub(value, start, start + 4) ~= "\\0kvl:" then
+    return nil
+  end
+  local parts, length, base = string.match(string.sub(value, start + 5), "^(%d+):(%d+):(.*)$")
+  if not base then
+    return nil
+  end
+  return {header = string.sub(value, 1, start - 1), parts = tonumber(parts), length = length, base = base}
+end
+
+local function moveParts(target)
+  local manifest = readManifest(target)
+  local base = manifest and manifest.base
+  if not base or string.sub(base, 1, #ARGV[7]) ~= ARGV[7] then
+    return
+  end
+  local id = string.sub(base, #ARGV[7] + 1, #base - #ARGV[9])
+  local targetBase = ARGV[8] .. id .. ARGV[10]
+  for i = 0, manifest.parts - 1 do
+    if redis.call("EXISTS", base .. i) == 1 then
+      redis.call("RENAME", base .. i, targetBase .. i)
+    end
+  end
+  local value = manifest.header .. "\\0kvl:" .. manifest.parts .. ":" .. manifest.length .. ":" .. targetBase
+  redis.call("SET", target, value, "KEEPTTL")
+end
+
+local results = {}
+for i = 4, #KEYS, 2 do
+  local source, target = KEYS[i], KEYS[i + 1]
+  local status = 1
+  if redis.call("EXISTS", source) == 0 then
+    status = -1
+  elseif ARGV[2] ~= "1" and redis.call("EXISTS", target) == 1 then
+    status = 0
+  elseif ARGV[1] ~= "1" then
+    if ARGV[7] ~= "" then
+      local replaced = readManifest(target)
+      if replaced then
+        for j = 0, replaced.parts - 1 do
+          redis.call("DEL", replaced.base .. j)
+        end
+      end
+    end
+    redis.call("RENAME", source, target)
+    if ARGV[7] ~= "" then
+      moveParts(target)
+    end
+    if ARGV[6] == "1" then
+      redis.call("SADD", KEYS[3], target)
+    end
+    if ARGV[3] == "1" then
+      redis.call("ZREM", KEYS[1], source)
+      local pttl = redis.call("PTTL", target)
+      local score = ARGV[4]
+      if pttl >= 0 then
+        score = tonumber(ARGV[5]) + pttl
+      end
+      redis.call("ZADD", KEYS[2], score, target)
+    end
+  end
+  results[#results + 1] = status
+end
+return results
+`
+
+/**
+ * Lua script that renames a namespace hash and the sorted set of the expiry times of its fields.
+ * KEYS[1] and KEYS[2] are the source hash and sorted set, KEYS[3] and KEYS[4] the target ones.
+ * ARGV[1] is "1" for a dry run and ARGV[2] "1" to overwrite an existing target hash.
+ * Returns the number of fields renamed and the number of fields skipped because the target hash exists.
+ */
+const MIGRATE_HASH_SCRIPT = `
+local count = redis.call("HLEN", KEYS[1])
+if count == 0 then
+  return {0, 0}
+end
+if ARGV[2] ~= "1" and redis.call("EXISTS", KEYS[3]) == 1 then
+  return {0, count}
+end
+if ARGV[1] ~= "1" then
+  redis.call("RENAME", KEYS[1], KEYS[3])
+  redis.call("DEL", KEYS[4])
+  if redis.call("EXISTS", KEYS[2]) == 1 then
+    redis.call("RENAME", KEYS[2], KEYS[4])
+  end
+end
+return {count, 0}
+`
+
+/**
+ * Lua script that removes the fields of a namespace hash that have expired, up to a limit.
+ * KEYS[1] is the hash and KEYS[2] the sorted set of its fields scored by expiry time,
+ * ARGV[1] is the current time in milliseconds and ARGV[2] the maximum number of fields to remove.
+ * Returns the number of removed fields.
+ */
+const EVICT_EXPIRED_FIELDS_SCRIPT = `
+local expired = redis.call("ZRANGEBYSCORE", KEYS[2], "-inf", ARGV[1], "LIMIT", 0, ARGV[2])
+for _, field in ipairs(expired) do
+  redis.call("HDEL", KEYS[1], field)
+  redis.call("ZREM", KEYS[2], field)
+end
+return #expired
+`
+
+/**
+ * Lua script that replaces the values of the given fields of a hash only if they have not changed since they were read.
+ * KEYS[1] is the hash, ARGV holds the field, the expected value and the new value for each field.
+ * Returns the number of updated fields.
+ */
+const REPLACE_UNCHANGED_FIELDS_SCRIPT = `
+local updated = 0
+for i = 1, #ARGV, 3 do
+  if redis.call("HGET", KEYS[1], ARGV[i]) == ARGV[i + 1] then
+    redis.call("HSET", KEYS[1], ARGV[i], ARGV[i + 2])
+    updated = updated + 1
+  end
+end
+return updated
+`
+
+/**
+ * Returns a promise that resolves after the given number of milliseconds.
+ *
+ * @param ms - The number of milliseconds to wait.
+ * @param signal - An optional signal that rejects the promise with its reason when aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Escapes the characters that have a special meaning in the glob-style patterns of `SCAN` and `MATCH`,
+ * so that a namespace prefix only matches itself.
+ *
+ * @param value - the literal part of a pattern
+ * @returns the escaped value
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&")
+}
+
+/**
+ * Turns the result of reading keys with `GET`, `HGET`, `MGET` or `HMGET` into an array of raw values.
+ *
+ * @param keys - the keys that were read
+ * @param result - the result of the command, which is a single value if only one key was read
+ * @returns the raw values, null for the keys that do not exist
+ */
+function toValueArray(keys: string[], result: unknown): unknown[] {
+  if (keys.length === 1) return [result]
+
+  // HMGET results are turned into an object when automatic deserialization is enabled.
+  return Array.isArray(result)
+    ? result
+    : keys.map(
+        (key) => (result as Record<string, unknown> | null)?.[key] ?? null
+      )
 }
 
 /**
@@ -89,9 +1111,18 @@ export class KeyvUpstash<T = any>
   implements KeyvStoreAdapter
 {
   /**
-   * The Upstash Redis client instance.
+   * The Upstash Redis client instance. With sharding, it is the client of the shard the current operation is
+   * executed on, or the primary client, which is the first shard, outside of operations.
    */
-  client: Redis
+  get client(): Redis {
+    const shard = this.currentShard.getStore()
+
+    return shard ? this.sharding!.client(shard) : this.primaryClient
+  }
+
+  set client(client: Redis) {
+    this.primaryClient = client
+  }
 
   /**
    * The namespace to use for keys. Optional.
@@ -126,28 +1157,225 @@ export class KeyvUpstash<T = any>
   noNamespaceAffectsAll: boolean
 
   /**
-   * The initial options provided to the constructor.
+   * The options used to compress values before writing them. Compression is disabled if not set.
+   * Compressed values are always decompressed when read, even if compression is disabled afterwards.
    */
-  private readonly initialOptions: KeyvUpstashOptions
+  compression?: Required<KeyvUpstashCompressionOptions>
 
   /**
-   * Creates an instance of KeyvUpstash.
-   *
-   * @param {KeyvUpstashOptions} options - The configuration options for KeyvUpstash.
-   *
-   * @throws {Error} Throws an error if the options are invalid.
+   * The options used to encrypt values before writing them. Encryption is disabled if not set.
+   * New values are encrypted with the current key, while any of the keys can be used to decrypt values.
    */
-  constructor(options: KeyvUpstashOptions) {
-    super()
+  encryption?: Required<KeyvUpstashEncryptionOptions>
 
-    this.initialOptions = { ...options }
+  /**
+   * For how long values with a TTL are kept after they expire, in milliseconds. Optional.
+   * During this grace period the values are still returned but are reported as stale, and `getOrSet`
+   * refreshes them in the background.
+   */
+  staleWhileRevalidate?: number
 
-    this.keyPrefixSeparator = options.keyPrefixSeparator ?? "::"
-    this.namespace = options.namespace
-    this.defaultTtl = options.defaultTtl
-    this.useUnlink = options.useUnlink ?? true
-    this.clearBatchSize = options.clearBatchSize ?? 1000
+  /**
+   * Whether reading a value with `get` or `getMany` restores its TTL, in the same round trip. Defaults to `false`.
+   * The TTL the value was set with is restored, or `defaultTtl` for values set before the option was enabled.
+   * Values that do not expire are left as they are.
+   */
+  slidingExpiration: boolean
+
+  /**
+   * Whether to keep an index of the keys of each namespace in a sorted set scored by expiry time. Defaults to `false`.
+   * When enabled, `clear()` and `iterator()` only walk the keys in the index instead of scanning the whole database.
+   */
+  useIndex: boolean
+
+  /**
+   * How keys are stored. Defaults to `string`.
+   * With `hash`, all the keys of a namespace are the fields of a single hash and their expiry times are kept in
+   * a sorted set next to it. Expired fields are removed lazily whenever the hash is accessed.
+   */
+  storage: KeyvUpstashStorage
+
+  /**
+   * The in-memory cache of recently read values, consulted before Upstash Redis by `get`, `getMany`, `has` and `hasMany`.
+   * It is disabled if not set. Values are kept in memory for a short time, capped by their TTL in Upstash Redis,
+   * and are removed when they are set or deleted through this instance. Writes from other clients are not seen
+   * until the values expire from memory.
+   */
+  memoryCache?: KeyvUpstashMemoryCache
+
+  /**
+   * The options used to coalesce the `get` and `has` calls made within a short window into a single request.
+   * Batching is disabled if not set.
+   */
+  batching?: Required<KeyvUpstashBatchingOptions>
+
+  /**
+   * The options used to retry failed operations. Operations are not retried if not set.
+   * Only idempotent operations are retried: `invalidateTags` and acquiring locks are never retried.
+   */
+  retryPolicy?: Required<KeyvUpstashRetryOptions>
+
+  /**
+   * The circuit breaker that short-circuits operations after repeated failures. Disabled if not set.
+   */
+  circuitBreaker?: KeyvUpstashCircuitBreaker
+
+  /**
+   * What happens when an operation fails. Defaults to `closed`, which rejects the promise with the error.
+   * With `open`, the error is emitted as an `error` event along with the operation and its keys, and the operation
+   * returns a miss, `false` or nothing instead, like `clear()` always does.
+   */
+  failMode: KeyvUpstashFailMode
+
+  /**
+   * The counters and latency histograms of the operations by namespace, also returned by `stats()`.
+   */
+  readonly metrics: KeyvUpstashMetrics
+
+  /**
+   * Routes the reads of `get`, `getMany`, `has`, `hasMany` and `iterator()` to the read replicas. Disabled if not set.
+   * Writes, scans, hash storage and reads that restore the TTL with `slidingExpiration` always use the primary `client`.
+   */
+  readReplicas?: KeyvUpstashReadRouter
+
+  /**
+   * Maps keys to the shards they are stored in when sharding is enabled. Disabled if not set.
+   * Operations on several keys are split by shard, and `clear()`, `iterator()`, `invalidateTags`, `reencrypt()`
+   * and `migrateNamespace` are executed on every shard.
+   */
+  sharding?: KeyvUpstashShardRing
+
+  /**
+   * The options of the change journal, a capped stream per namespace that `set`, `setMany`, `delete`, `deleteMany`
+   * and `clear()` append their changes to, so that other instances can invalidate their caches by reading `changes()`.
+   * It is disabled if not set. The journal is always stored in the primary `client`.
+   */
+  journal?: Required<KeyvUpstashJournalOptions>
+
+  /**
+   * The options used to split `setMany`, `getMany`, `hasMany` and `deleteMany` into several requests by number of keys
+   * and estimated size. Each request is a transaction of its own. Enabled by default, disabled if not set.
+   */
+  chunking?: Required<KeyvUpstashChunkingOptions>
+
+  /**
+   * The options used to split the values larger than `threshold` into parts stored under their own keys, with
+   * a manifest stored under the key of the value. Values are not split if not set.
+   */
+  largeValues?: Required<KeyvUpstashLargeValuesOptions>
+
+  /**
+   * The client passed to the constructor or created from its options, which is the first shard with sharding.
+   */
+  private primaryClient!: Redis
+
+  /**
+   * The initial options provided to the constructor.
+   */
+  private readonly initialOptions: KeyvUpstashOptions
+
+  /**
+   * The in-flight `getOrSet` calls by prefixed key, used to de-duplicate concurrent calls for the same key.
+   */
+  private readonly pendingLoads = new Map<string, Promise<unknown>>()
+
+  /**
+   * The background refreshes started by `getOrSet` by prefixed key.
+   */
+  private readonly pendingRefreshes = new Map<string, Promise<void>>()
+
+  /**
+   * Coalesces the single key reads of `get`, `getWithStaleness` and `getOrSet` when batching is enabled.
+   */
+  private readonly getBatcher?: KeyvUpstashBatcher<BatchedKey, unknown>
+
+  /**
+   * Coalesces the `has` calls when batching is enabled.
+   */
+  private readonly hasBatcher?: KeyvUpstashBatcher<BatchedKey, boolean>
+
+  /**
+   * The name of the operation being executed, used to run the operations executed within another one as part of it.
+   */
+  private readonly currentOperation = new AsyncLocalStorage<string>()
+
+  /**
+   * The counters of the operation being instrumented, used to count the operations instrumented within another one
+   * as part of it.
+   */
+  private readonly currentMetrics = new AsyncLocalStorage<OperationMetrics>()
+
+  /**
+   * The shard the operation being executed is routed to, which `client` returns the client of.
+   */
+  private readonly currentShard = new AsyncLocalStorage<number>()
+
+  /**
+   * Creates an instance of KeyvUpstash.
+   *
+   * @param {KeyvUpstashOptions} options - The configuration options for KeyvUpstash.
+   *
+   * @throws {Error} Throws an error if the options are invalid.
+   */
+  constructor(options: KeyvUpstashOptions) {
+    super()
+
+    this.initialOptions = { ...options }
+
+    this.keyPrefixSeparator = options.keyPrefixSeparator ?? "::"
+    this.namespace = options.namespace
+    this.defaultTtl = options.defaultTtl
+    this.useUnlink = options.useUnlink ?? true
+    this.clearBatchSize = options.clearBatchSize ?? 1000
     this.noNamespaceAffectsAll = options.noNamespaceAffectsAll ?? false
+    this.compression = resolveCompressionOptions(options.compression)
+    this.encryption = resolveEncryptionOptions(options.encryption)
+    this.staleWhileRevalidate = options.staleWhileRevalidate
+    this.slidingExpiration = options.slidingExpiration ?? false
+    this.useIndex = options.useIndex ?? false
+    this.storage = options.storage ?? "string"
+    this.journal = resolveJournalOptions(options.journal)
+    this.chunking = resolveChunkingOptions(options.chunking)
+    this.largeValues = resolveLargeValuesOptions(options.largeValues)
+    if (this.largeValues && this.storage === "hash") {
+      throw new Error("Large values cannot be used with hash storage")
+    }
+
+    const memoryCacheOptions = resolveMemoryCacheOptions(options.memoryCache)
+    if (memoryCacheOptions) {
+      this.memoryCache = new KeyvUpstashMemoryCache(memoryCacheOptions)
+    }
+
+    this.failMode = options.failMode ?? "closed"
+    this.metrics = new KeyvUpstashMetrics(
+      resolveMetricsOptions(options.metrics)
+    )
+    this.retryPolicy = resolveRetryOptions(options.retryPolicy)
+
+    const circuitBreakerOptions = resolveCircuitBreakerOptions(
+      options.circuitBreaker
+    )
+    if (circuitBreakerOptions) {
+      this.circuitBreaker = new KeyvUpstashCircuitBreaker(circuitBreakerOptions)
+    }
+
+    this.batching = resolveBatchingOptions(options.batching)
+    if (this.batching) {
+      this.getBatcher = new KeyvUpstashBatcher(
+        (items) =>
+          this.loadBatch(items, (keys, namespace) =>
+            this.readValues(keys, namespace)
+          ),
+        this.batching
+      )
+      this.hasBatcher = new KeyvUpstashBatcher(
+        (items) =>
+          this.loadBatch(items, (keys, namespace) =>
+            this.existMany(keys, namespace)
+          ),
+        this.batching
+      )
+    }
 
     if (optionsHasRedis(options)) {
       this.client = options.upstashRedis
@@ -157,6 +1385,28 @@ export class KeyvUpstash<T = any>
         automaticDeserialization: false,
       })
     }
+
+    const readReplicasOptions = resolveReadReplicasOptions(
+      options.readReplicas,
+      (replica) =>
+        new Redis({ ...options, ...replica, automaticDeserialization: false })
+    )
+    if (readReplicasOptions) {
+      this.readReplicas = new KeyvUpstashReadRouter(readReplicasOptions)
+    }
+
+    const shardingOptions = resolveShardingOptions(
+      options.sharding,
+      (shard) =>
+        new Redis({ ...options, ...shard, automaticDeserialization: false })
+    )
+    if (shardingOptions) {
+      if (this.readReplicas) {
+        throw new Error("Read replicas cannot be used with sharding")
+      }
+
+      this.sharding = new KeyvUpstashShardRing(shardingOptions)
+    }
   }
 
   /**
@@ -176,248 +1426,3793 @@ export class KeyvUpstash<T = any>
       useUnlink: this.useUnlink,
       clearBatchSize: this.clearBatchSize,
       noNamespaceAffectsAll: this.noNamespaceAffectsAll,
+      compression: this.compression,
+      encryption: this.encryption,
+      staleWhileRevalidate: this.staleWhileRevalidate,
+      slidingExpiration: this.slidingExpiration,
+      useIndex: this.useIndex,
+      storage: this.storage,
+      memoryCache: this.memoryCache?.options,
+      batching: this.batching,
+      retryPolicy: this.retryPolicy,
+      circuitBreaker: this.circuitBreaker?.options,
+      failMode: this.failMode,
+      metrics: this.metrics.options,
+      readReplicas: this.readReplicas?.options,
+      sharding: this.sharding?.options,
+      journal: this.journal,
+      chunking: this.chunking,
+      largeValues: this.largeValues,
     }
   }
 
+  /**
+   * Get a snapshot of the metrics of the operations: counters of executions, errors, hits, misses and bytes read
+   * and written, and latency histograms, by namespace and operation.
+   *
+   * @returns {KeyvUpstashStats} - the metrics by namespace and operation
+   */
+  stats(): KeyvUpstashStats {
+    return this.metrics.stats()
+  }
+
   /**
    * Constructs the full key name by combining the namespace, key prefix separator, and the provided key.
    * If the namespace is not defined, it returns the provided key as is.
+   *
+   * @param key - the key
+   * @param namespace - the namespace to prefix the key with. Defaults to the current namespace.
    */
-  getKeyName = (key: string): string => {
-    if (this.namespace) {
-      return `${this.namespace}${this.keyPrefixSeparator}${key}`
+  getKeyName = (key: string, namespace = this.namespace): string => {
+    if (namespace) {
+      return `${namespace}${this.keyPrefixSeparator}${key}`
     }
 
     return key
   }
 
   /**
-   * Set a key value pair in the store. TTL is in milliseconds.
+   * Constructs the name of a key used internally by the adapter, e.g. for locks.
+   * Internal keys are prefixed with the namespace like regular keys but are skipped by `iterator()`.
    *
-   * @param {string} key - the key to set
-   * @param {string} value - the value to set
-   * @param {number} [ttl] - the time to live in milliseconds
+   * @param type - the type of the internal key
+   * @param key - the key the internal key belongs to, if any
+   * @param namespace - the namespace of the internal key. Defaults to the current namespace.
+   * @param separator - the separator of the namespace and the parts of the name. Defaults to `keyPrefixSeparator`.
+   * @returns the prefixed internal key name
+   *
+   * @private
    */
-  async set(key: string, value: any, ttl?: number): Promise<void> {
-    key = this.getKeyName(key)
-
-    const finalTtl = ttl ?? this.defaultTtl
-    if (finalTtl != undefined) {
-      await this.client.set(key, value, { px: finalTtl })
-    } else {
-      await this.client.set(key, value)
+  private getInternalKeyName(
+    type: string,
+    key?: string,
+    namespace = this.namespace,
+    separator = this.keyPrefixSeparator
+  ): string {
+    let name = `${INTERNAL_KEY_PREFIX}${separator}${type}`
+    if (key !== undefined) {
+      name += `${separator}${key}`
     }
+
+    return namespace ? `${namespace}${separator}${name}` : name
   }
 
   /**
-   * Will set many key value pairs in the store. TTL is in milliseconds. This will be done as a single transaction.
+   * Checks if a prefixed key is one of the keys used internally by the adapter.
+   *
+   * @param key - the prefixed key
    *
-   * @param {Array<KeyvRedisEntry<string>>} entries - the key value pairs to set with optional ttl
+   * @private
    */
-  async setMany(entries: Array<KeyvUpstashEntry<string>>): Promise<void> {
-    const multi = this.client.multi()
-
-    for (const { key, value, ttl } of entries) {
-      const prefixedKey = this.getKeyName(key)
-      const finalTtl = ttl ?? this.defaultTtl
+  private isInternalKey(key: string): boolean {
+    return key.includes(`${INTERNAL_KEY_PREFIX}${this.keyPrefixSeparator}`)
+  }
 
-      if (finalTtl !== undefined) {
-        multi.set(prefixedKey, value, { px: finalTtl })
-      } else {
-        multi.set(prefixedKey, value)
-      }
-    }
+  /**
+   * Gets the key of a value in the memory cache, which is always the prefixed key.
+   *
+   * @param key - the prefixed key, or the field in hash storage
+   * @param namespace - the namespace of the field in hash storage. Defaults to the current namespace.
+   * @returns the prefixed key
+   *
+   * @private
+   */
+  private getMemoryCacheKey(key: string, namespace = this.namespace): string {
+    if (this.storage === "string" || !namespace) return key
 
-    await multi.exec()
+    return `${namespace}${this.keyPrefixSeparator}${key}`
   }
 
   /**
-   * Check if a key exists in the store.
+   * Checks if the operation being executed must be routed to the shards of its keys: sharding is enabled
+   * and the operation is not already executed on a shard.
    *
-   * @param {string} key - the key to check
-   * @returns {Promise<boolean>} - true if the key exists, false if not
+   * @private
    */
-  async has(key: string): Promise<boolean> {
-    key = this.getKeyName(key)
-    const exists: number = await this.client.exists(key)
+  private shouldRoute(): this is { sharding: KeyvUpstashShardRing } {
+    return !!this.sharding && this.currentShard.getStore() === undefined
+  }
 
-    return exists === 1
+  /**
+   * Runs an operation on a shard, so that every command it sends uses the client of the shard.
+   *
+   * @param shard - the index of the shard, or `undefined` to run the operation as it is
+   * @param run - runs the operation
+   * @returns the result of the operation
+   *
+   * @private
+   */
+  private onShard<R>(shard: number | undefined, run: () => R): R {
+    return shard === undefined ? run() : this.currentShard.run(shard, run)
   }
 
   /**
-   * Check if many keys exist in the store. This will be done as a single transaction.
+   * Runs an operation on the shard a key is stored in.
    *
-   * @param {Array<string>} keys - the keys to check
-   * @returns {Promise<Array<boolean>>} - array of booleans for each key if it exists
+   * @param key - the key, without the namespace prefix
+   * @param run - runs the operation
+   * @returns the result of the operation
+   *
+   * @private
    */
-  async hasMany(keys: string[]): Promise<boolean[]> {
-    const multi = this.client.multi()
+  private routeTo<R>(key: string, run: () => R): R {
+    return this.onShard(this.sharding?.shardOf(key), run)
+  }
 
-    for (const key of keys) {
-      const prefixedKey = this.getKeyName(key)
-      multi.exists(prefixedKey)
+  /**
+   * Splits the items of an operation by the shard of their key and runs the operation on every shard concurrently.
+   *
+   * @param items - the items of the operation
+   * @param getKey - gets the key of an item, without the namespace prefix
+   * @param run - runs the operation with the items of a shard
+   * @returns the result of the operation on each shard that has items
+   *
+   * @private
+   */
+  private async routeGroups<I, R>(
+    items: I[],
+    getKey: (item: I, index: number) => string,
+    run: (items: I[], indexes: number[]) => Promise<R>
+  ): Promise<R[]> {
+    const indexesByShard = new Map<number, number[]>()
+    for (const [i, item] of items.entries()) {
+      const shard = this.sharding?.shardOf(getKey(item, i)) ?? 0
+      const indexes = indexesByShard.get(shard) ?? []
+      indexes.push(i)
+      indexesByShard.set(shard, indexes)
     }
 
-    const results = await multi.exec()
-
-    return results.map((result) => result === 1)
+    return Promise.all(
+      [...indexesByShard].map(([shard, indexes]) =>
+        this.onShard(shard, () =>
+          run(
+            indexes.map((i) => items[i]),
+            indexes
+          )
+        )
+      )
+    )
   }
 
   /**
-   * Get a value from the store. If the key does not exist, it will return undefined.
+   * Like `routeGroups`, for operations with a result per item: the results of the shards are put back in the
+   * order of the items.
    *
-   * @template U - the type of the value to be returned. Defaults to `T`.
-   * @param {string} key - the key to get
-   * @returns {Promise<U | undefined>} - the value or undefined if the key does not exist
+   * @param items - the items of the operation
+   * @param getKey - gets the key of an item, without the namespace prefix
+   * @param run - runs the operation with the items of a shard
+   * @returns the result for each item
+   *
+   * @private
    */
-  async get<U = T>(key: string): Promise<U | undefined> {
-    key = this.getKeyName(key)
-
-    const value = await this.client.get<T>(key)
+  private async routeEach<I, R>(
+    items: I[],
+    getKey: (item: I, index: number) => string,
+    run: (items: I[]) => Promise<R[]>
+  ): Promise<R[]> {
+    const results: R[] = []
+    await this.routeGroups(items, getKey, async (items, indexes) => {
+      const shardResults = await run(items)
+      for (const [j, i] of indexes.entries()) {
+        results[i] = shardResults[j]
+      }
+    })
 
-    return (value as U) ?? undefined
+    return results
   }
 
   /**
-   * Get many values from the store. If a key does not exist, it will return undefined.
+   * Runs an operation on every shard, one after the other.
    *
-   * @param {Array<string>} keys - the keys to get
-   * @returns {Promise<Array<U | undefined>>} - array of values or undefined if the key does not exist
+   * @param run - runs the operation
+   * @returns the result of the operation on each shard
+   *
+   * @private
    */
-  async getMany<U = T>(keys: string[]): Promise<Array<U | undefined>> {
-    keys = keys.map(this.getKeyName)
-    const values = await this.client.mget(keys)
+  private async onEveryShard<R>(run: () => Promise<R>): Promise<R[]> {
+    const results: R[] = []
+    for (let shard = 0; shard < (this.sharding?.size ?? 1); shard++) {
+      results.push(await this.onShard(shard, run))
+    }
 
-    return values.map((value) => (value as U) ?? undefined)
+    return results
   }
 
   /**
-   * Deletes the specified key(s) from the storage.
+   * Splits the items of a bulk operation into chunks by number of keys and estimated size, and runs the operation
+   * on the chunks, with at most `concurrency` chunks at a time. The results of the chunks are put back in the order
+   * of the items. If some chunks fail, the others are still run and a `KeyvUpstashBulkError` is thrown with the keys
+   * of the failed chunks and the results of the others.
    *
-   * @param key - A single key or an array of keys to be deleted.
-   * @returns A promise that resolves to a boolean indicating whether any key was deleted.
+   * @param operation - the name of the operation
+   * @param items - the items of the operation
+   * @param getKey - gets the key of an item, without the namespace prefix
+   * @param getItemSize - estimates the size of an item in a request, in bytes
+   * @param run - runs the operation with the items of a chunk
+   * @param fallback - the result of the items of the chunks that failed
+   * @returns the result for each item, or `undefined` if chunking is disabled or the items fit in a single chunk
    *
-   * @remarks
-   * If `useUnlink` is set to true, the `unlink` method of the client will be used to delete the keys.
-   * Otherwise, the `del` method of the client will be used.
+   * @throws {KeyvUpstashBulkError} Throws an error if any chunk failed.
    *
    * @private
    */
-  private async genericDelete(key: string | string[]): Promise<boolean> {
-    let keys = Array.isArray(key) ? key : [key]
-    keys = keys.map(this.getKeyName)
+  private async chunkEach<I, R>(
+    operation: string,
+    items: I[],
+    getKey: (item: I) => string,
+    getItemSize: (item: I) => number,
+    run: (items: I[]) => Promise<R[]>,
+    fallback: R
+  ): Promise<R[] | undefined> {
+    const chunking = this.chunking
+    if (!chunking || items.length <= 1) return undefined
 
-    let deleted = 0
-    if (this.useUnlink) {
-      deleted = await this.client.unlink(...keys)
-    } else {
-      deleted = await this.client.del(...keys)
+    const chunks = splitIntoChunks(items.map(getItemSize), chunking)
+    if (chunks.length <= 1) return undefined
+
+    const results: R[] = []
+    const failedKeys: string[] = []
+    const errors: unknown[] = []
+    await runConcurrently(chunks, chunking.concurrency, async (indexes) => {
+      try {
+        const chunkResults = await run(indexes.map((i) => items[i]))
+        for (const [j, i] of indexes.entries()) {
+          results[i] = chunkResults[j]
+        }
+      } catch (error) {
+        for (const i of indexes) {
+          results[i] = fallback
+          failedKeys.push(getKey(items[i]))
+        }
+        errors.push(error)
+      }
+    })
+
+    if (errors.length > 0) {
+      throw new KeyvUpstashBulkError(operation, failedKeys, errors, results)
     }
 
-    return deleted > 0
+    return results
   }
 
   /**
-   * Delete a key from the store.
+   * Steps an async iterator on a shard: the context of an async generator is the one of each `next()` call,
+   * not the one it was created in.
    *
-   * @param {string} key - the key to delete
-   * @returns {Promise<boolean>} - true if the key was deleted, false if not
+   * @param shard - the index of the shard
+   * @param iterator - the iterator to step
+   * @returns async iterator with the values of `iterator`
+   *
+   * @private
    */
-  async delete(key: string): Promise<boolean> {
-    return this.genericDelete(key)
+  private async *onShardIterator<V>(
+    shard: number,
+    iterator: AsyncGenerator<V, void, unknown>
+  ): AsyncGenerator<V, void, unknown> {
+    try {
+      for (;;) {
+        const result = await this.onShard(shard, () => iterator.next())
+        if (result.done) return
+
+        yield result.value
+      }
+    } finally {
+      await this.onShard(shard, () => iterator.return())
+    }
   }
 
   /**
-   * Delete many keys from the store. This will be done as a single transaction.
+   * Sends a read to the first healthy read replica if the operation being executed is routed to the replicas,
+   * or to the primary client otherwise. If the replica fails, a `replica-error` event is emitted and the read is
+   * sent to the primary instead.
    *
-   * @param {Array<string>} keys - the keys to delete
-   * @returns {Promise<boolean>} - true if any key was deleted, false if not
+   * @param read - sends the read with a client
+   * @returns the result of the read
+   *
+   * @private
    */
-  async deleteMany(keys: string[]): Promise<boolean> {
-    return this.genericDelete(keys)
+  private async readFromReplica<R>(
+    read: (client: Redis) => Promise<R>
+  ): Promise<R> {
+    const target = REPLICA_OPERATIONS.has(
+      this.currentOperation.getStore() ?? ""
+    )
+      ? this.readReplicas?.pick()
+      : undefined
+    if (!target) {
+      return read(this.client)
+    }
+
+    try {
+      const result = await read(target.client)
+      this.readReplicas?.record(target.replica, true)
+
+      return result
+    } catch (error) {
+      this.readReplicas?.record(target.replica, false)
+      this.emit("replica-error", {
+        replica: target.replica,
+        error,
+      } satisfies KeyvUpstashReplicaErrorEvent)
+
+      return read(this.client)
+    }
   }
 
   /**
-   * Clear all keys in the store.
-   *
-   * IMPORTANT: this can cause performance issues if there are a large number of keys in the store. Use with caution as not recommended for production.
+   * Appends a change to the journal of the namespace, trimming it to about `maxLength` changes, once the change has
+   * been made. The journal is stored in the primary client, so that there is a single journal per namespace with
+   * sharding. Failures are emitted as `error` events of the `journal` operation and never thrown, since they must
+   * not change the result of the operation that made the change. The change is not retried, which could append it twice.
    *
-   * If a namespace is not set it will clear all keys.
-   * If a namespace is set it will clear all keys with that namespace (`FLUSHDB`).
-   *
-   * @remarks
-   * If `useUnlink` is set to true, the `unlink` method of the client will be used to delete the keys.
-   * Otherwise, the `del` method of the client will be used.
+   * @param type - what the change did
+   * @param keys - the keys of the change, without the namespace prefix
    *
-   * @returns {Promise<void>}
+   * @private
    */
-  async clear(): Promise<void> {
-    try {
-      if (!this.namespace && this.noNamespaceAffectsAll) {
-        await this.client.flushdb()
-      } else {
-        let cursor = "0"
-        const match = this.namespace
-          ? `${this.namespace}${this.keyPrefixSeparator}*`
-          : "*"
-
-        do {
-          const result = await this.client.scan(Number.parseInt(cursor, 10), {
-            match,
-            count: this.clearBatchSize,
-            type: "string",
-          })
+  private async appendChange(
+    type: KeyvUpstashChangeType,
+    keys: string[]
+  ): Promise<void> {
+    const journal = this.journal
+    if (!journal || (keys.length === 0 && type !== "clear")) return
 
-          cursor = result[0]
-          let keys = result[1]
+    try {
+      await this.primaryClient.xadd(
+        this.getInternalKeyName("journal"),
+        "*",
+        toJournalEntry(type, keys, journal.source),
+        {
+          trim: {
+            type: "MAXLEN",
+            threshold: journal.maxLength,
+            comparison: "~",
+          },
+        }
+      )
+    } catch (error) {
+      this.emitFailure("journal", keys, error)
+    }
+  }
 
-          if (keys.length === 0) {
-            continue
-          }
+  /**
+   * Executes an operation against Upstash Redis, retrying it according to `retryPolicy` if it is idempotent and
+   * short-circuiting it while the circuit breaker is open. Operations executed within another one, e.g. the reads of
+   * `getOrSet`, are run as part of the outer operation.
+   *
+   * Emits a `retry` event before every retry, and `circuit-open` and `circuit-close` events when the state of
+   * the circuit breaker changes. If the operation fails and `failMode` is `open`, the error is emitted as an `error`
+   * event and the fallback result is returned. The operation is instrumented, see `instrument`.
+   *
+   * @param operation - the name of the operation
+   * @param keys - the keys of the operation
+   * @param run - runs the operation
+   * @param options - whether the operation is idempotent and its fallback result
+   * @returns the result of the operation
+   *
+   * @throws {Error} Throws the error of the last attempt, or an error if the circuit breaker is open.
+   *
+   * @private
+   */
+  private async execute<R>(
+    operation: string,
+    keys: string[],
+    run: () => Promise<R>,
+    { idempotent = true, fallback }: ExecuteOptions<R> = {}
+  ): Promise<R> {
+    return this.instrument(operation, keys, async () => {
+      if (this.currentOperation.getStore() !== undefined) {
+        return run()
+      }
 
-          // If no namespace is provided, filter out keys with a namespace.
-          if (!this.namespace) {
-            keys = keys.filter((key) => !key.includes(this.keyPrefixSeparator))
-          }
+      try {
+        return await this.executeWithRetries(operation, keys, run, idempotent)
+      } catch (error) {
+        if (this.failMode === "closed" || !fallback) {
+          throw error
+        }
 
-          if (keys.length > 0) {
-            if (this.useUnlink) {
-              await this.client.unlink(...keys)
-            } else {
-              await this.client.del(...keys)
-            }
-          }
-        } while (cursor !== "0")
+        this.emitFailure(operation, keys, error)
+        this.recordMetrics((metrics) => {
+          metrics.error = error
+        })
+        return fallback()
       }
-      /* c8 ignore next 3 */
-    } catch (error) {
-      this.emit("error", error)
-    }
+    })
   }
 
   /**
-   * Get an async iterator for the keys and values in the store. If a namespace is provided, it will only iterate over keys with that namespace.
-   * If not namespace is provided, depending on the `noNamespaceAffectsAll` option, it will iterate over all keys or only keys without a namespace.
+   * Instruments an operation: emits an `operation-start` event before running it, and an `operation-end` event
+   * with its duration, hits, misses and the size of the values read and written once it has succeeded or failed.
+   * The event is also added to `metrics`. Operations instrumented within another one, e.g. the reads of
+   * `getOrSet`, are counted as part of the outer operation.
    *
-   * @param {string} [namespace] - the namespace to iterate over
-   * @returns {AsyncGenerator<[string, U | undefined], void, unknown>} - async iterator with key value pairs
+   * @param operation - the name of the operation
+   * @param keys - the keys of the operation
+   * @param run - runs the operation
+   * @returns the result of the operation
+   *
+   * @private
    */
-  public async *iterator<U = T>(
-    namespace?: string
-  ): AsyncGenerator<[string, U | undefined], void, unknown> {
-    const getKeyWithoutPrefix = (key: string) => {
-      if (!namespace) return key
+  private async instrument<R>(
+    operation: string,
+    keys: string[],
+    run: () => Promise<R>
+  ): Promise<R> {
+    if (this.currentMetrics.getStore() !== undefined) {
+      return run()
+    }
 
-      return key.replace(`${namespace}${this.keyPrefixSeparator}`, "")
+    const start: KeyvUpstashOperationStartEvent = {
+      operation,
+      namespace: this.namespace,
+      keys,
     }
+    this.emit("operation-start", start)
 
-    const match = namespace ? `${namespace}${this.keyPrefixSeparator}*` : "*"
-    let cursor = "0"
-    do {
+    const metrics = createOperationMetrics()
+    const startTime = Date.now()
+    const startedAt = performance.now()
+    try {
+      return await this.currentMetrics.run(metrics, run)
+    } catch (error) {
+      metrics.error = error
+      throw error
+    } finally {
+      const event: KeyvUpstashOperationEvent = {
+        ...start,
+        startTime,
+        duration: performance.now() - startedAt,
+        ...metrics,
+      }
+      this.metrics.record(event)
+      this.emit("operation-end", event)
+    }
+  }
+
+  /**
+   * Updates the counters of the operation being instrumented, if any.
+   *
+   * @private
+   */
+  private recordMetrics(update: (metrics: OperationMetrics) => void): void {
+    const metrics = this.currentMetrics.getStore()
+    if (metrics) update(metrics)
+  }
+
+  /**
+   * Counts the hits and misses of a read and the size of the values read.
+   *
+   * @param values - the raw values read, null for missing keys
+   *
+   * @private
+   */
+  private recordReads(values: unknown[]): void {
+    this.recordMetrics((metrics) => {
+      for (const value of values) {
+        if (value === null || value === undefined) {
+          metrics.misses++
+        } else {
+          metrics.hits++
+          metrics.bytesReceived += getSize(value)
+        }
+      }
+    })
+  }
+
+  /**
+   * Counts the hits and misses of an existence check.
+   *
+   * @param exists - whether each key exists
+   *
+   * @private
+   */
+  private recordExists(exists: boolean[]): void {
+    this.recordMetrics((metrics) => {
+      for (const hit of exists) {
+        if (hit) {
+          metrics.hits++
+        } else {
+          metrics.misses++
+        }
+      }
+    })
+  }
+
+  /**
+   * Implements `execute` without the fallback.
+   *
+   * @private
+   */
+  private async executeWithRetries<R>(
+    operation: string,
+    keys: string[],
+    run: () => Promise<R>,
+    idempotent: boolean
+  ): Promise<R> {
+    const circuitBreaker = this.circuitBreaker
+    if (circuitBreaker && !circuitBreaker.tryPass()) {
+      throw new Error(
+        `Circuit breaker is open, "${operation}" was not executed`
+      )
+    }
+
+    const retries = (idempotent && this.retryPolicy?.retries) || 0
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.currentOperation.run(operation, run)
+        if (circuitBreaker?.recordSuccess()) {
+          this.emit("circuit-close")
+        }
+
+        return result
+      } catch (error) {
+        if (attempt > retries || !this.retryPolicy?.shouldRetry(error)) {
+          if (circuitBreaker?.recordFailure()) {
+            this.emit("circuit-open", error)
+          }
+
+          throw error
+        }
+
+        const delay = getRetryDelay(attempt, this.retryPolicy)
+        const event: KeyvUpstashRetryEvent = {
+          operation,
+          keys,
+          attempt,
+          delay,
+          error,
+        }
+        this.emit("retry", event)
+        await sleep(delay)
+      }
+    }
+  }
+
+  /**
+   * Emits the error of a failed operation as an `error` event, along with the operation and its keys.
+   *
+   * @private
+   */
+  private emitFailure(operation: string, keys: string[], error: unknown): void {
+    // `emit` throws errors that have no listener, which would fail the operation anyway.
+    if (this.listenerCount("error") === 0) return
+
+    const context: KeyvUpstashErrorContext = { operation, keys }
+    this.emit("error", error, context)
+  }
+
+  /**
+   * Encodes a value before it is written to the store by compressing and encrypting it if enabled,
+   * and wrapping it with its metadata if any.
+   *
+   * @param value - the value to encode
+   * @param metadata - the metadata to store with the value
+   * @returns the value to write to the store
+   *
+   * @private
+   */
+  private async encodeValue(
+    value: any,
+    metadata?: KeyvUpstashValueMetadata
+  ): Promise<any> {
+    if (this.compression) {
+      value = await compressValue(value, this.compression)
+    }
+
+    if (this.encryption) {
+      value = encryptValue(value, this.encryption)
+    }
+
+    if (metadata) {
+      value = wrapValue(value, metadata)
+    }
+
+    return value
+  }
+
+  /**
+   * Decodes a value read from the store, reversing `encodeValue`.
+   *
+   * @param value - the raw value read from the store
+   * @returns the decoded value or undefined if the key does not exist
+   *
+   * @private
+   */
+  private async decodeValue<U>(value: unknown): Promise<U | undefined> {
+    return (await this.decodeEntry<U>(value)).value
+  }
+
+  /**
+   * Decodes a value read from the store, reversing `encodeValue`, and returns it with its metadata.
+   *
+   * @param value - the raw value read from the store
+   * @returns the decoded value, or undefined if the key does not exist, and its metadata
+   *
+   * @private
+   */
+  private async decodeEntry<U>(
+    value: unknown
+  ): Promise<{ value?: U; metadata?: KeyvUpstashValueMetadata }> {
+    value = await this.joinValue(value)
+    if (value == undefined) return {}
+
+    const unwrapped = unwrapValue(value)
+    const decrypted = decryptValue(unwrapped.value, this.encryption)
+
+    return {
+      value: (await decompressValue(decrypted)) as U,
+      metadata: unwrapped.metadata,
+    }
+  }
+
+  /**
+   * Joins the parts of a large value read from the store, if it is the manifest of a large value. The TTL of the parts
+   * is restored along with the one of the manifest with `slidingExpiration`.
+   *
+   * @param value - the raw value read from the store
+   * @returns the raw value with the parts joined, or null if a part is missing, e.g. if the value is being replaced
+   *
+   * @private
+   */
+  private async joinValue(value: unknown): Promise<unknown> {
+    if (!this.largeValues) return value
+
+    const { value: inner, metadata } = unwrapValue(value)
+    const manifest = parseManifest(inner)
+    if (!manifest) return value
+
+    const keys = getPartKeys(manifest)
+    const parts = await this.client.mget<Array<string | null>>(keys)
+    const joined = parts.some((part) => part === null) ? null : parts.join("")
+    if (joined === null || joined.length !== manifest.length) {
+      return null
+    }
+
+    this.recordMetrics((metrics) => {
+      metrics.bytesReceived += getSize(joined)
+    })
+    if (this.slidingExpiration && metadata?.ttl !== undefined) {
+      await this.updatePartsTtl([manifest], metadata.ttl)
+    }
+
+    return metadata ? wrapValue(joined, metadata) : joined
+  }
+
+  /**
+   * Joins the parts of a large value like `joinValue`, for the raw values that are exported or moved as they are.
+   *
+   * @param value - the raw value read from the store
+   * @returns the raw value as a string, or undefined if a part is missing
+   *
+   * @private
+   */
+  private async joinRawValue(value: unknown): Promise<string | undefined> {
+    const joined = await this.joinValue(value)
+
+    return joined == undefined ? undefined : String(joined)
+  }
+
+  /**
+   * Splits the value of a write that is larger than the threshold of `largeValues` into parts, and returns a new
+   * write whose value is the manifest of the parts. The parts are only written by `executeWrites`, so that retrying
+   * the write writes the same parts again.
+   *
+   * @param write - the write, which is left unchanged
+   * @returns the write itself if its value is not split, or a new write with the manifest and the parts
+   *
+   * @private
+   */
+  private splitWrite(write: PreparedWrite): PreparedWrite {
+    const largeValues = this.largeValues
+    if (!largeValues) return write
+
+    const { value, metadata } = unwrapValue(write.value)
+    if (!isLargeValue(value, largeValues)) return write
+
+    const serialized = typeof value === "string" ? value : JSON.stringify(value)
+    const parts = splitValue(serialized, largeValues.partSize)
+    const manifest: LargeValueManifest = {
+      parts: parts.length,
+      length: serialized.length,
+      base: `${this.getInternalKeyName("part", randomUUID())}${this.keyPrefixSeparator}`,
+    }
+
+    return {
+      ...write,
+      value: metadata
+        ? wrapValue(toManifest(manifest), metadata)
+        : toManifest(manifest),
+      parts: { manifest, values: parts },
+    }
+  }
+
+  /**
+   * Writes the parts of the large values of writes, each in its own request and with `PENDING_PART_TTL`, so that
+   * a value can only be read once all its parts are written. If a part cannot be written, the parts written so far
+   * are deleted.
+   *
+   * @param writes - the writes, split by `splitWrite`
+   *
+   * @private
+   */
+  private async writeParts(writes: PreparedWrite[]): Promise<void> {
+    try {
+      for (const { parts } of writes) {
+        if (!parts) continue
+
+        for (const [i, key] of getPartKeys(parts.manifest).entries()) {
+          await this.client.set(key, parts.values[i], { px: PENDING_PART_TTL })
+        }
+        this.recordMetrics((metrics) => {
+          metrics.bytesSent += getSize(parts.values.join(""))
+        })
+      }
+    } catch (error) {
+      await this.discardParts(writes)
+      throw error
+    }
+  }
+
+  /**
+   * Deletes the parts of writes that failed, ignoring the errors since the parts expire with `PENDING_PART_TTL`
+   * anyway and the error of the write is the one to report.
+   *
+   * @param writes - the writes, split by `splitWrite`
+   *
+   * @private
+   */
+  private async discardParts(writes: PreparedWrite[]): Promise<void> {
+    await this.deleteParts(
+      writes.flatMap(({ parts }) => (parts ? [parts.manifest] : []))
+    ).catch(() => undefined)
+  }
+
+  /**
+   * Reads the manifests of the large values among keys, without reading the other values.
+   *
+   * @param keys - the prefixed keys
+   * @returns the manifests of the keys that hold a large value
+   *
+   * @private
+   */
+  private async readManifests(keys: string[]): Promise<LargeValueManifest[]> {
+    if (!this.largeValues || keys.length === 0) return []
+
+    const manifests = await this.client.eval<string[], unknown[]>(
+      GET_MANIFESTS_SCRIPT,
+      keys,
+      []
+    )
+
+    return manifests
+      .map((manifest) => parseManifest(manifest))
+      .filter((manifest) => manifest !== undefined)
+  }
+
+  /**
+   * Deletes the parts of large values, in batches of `clearBatchSize` keys.
+   *
+   * @param manifests - the manifests of the values
+   *
+   * @private
+   */
+  private async deleteParts(manifests: LargeValueManifest[]): Promise<void> {
+    const keys = manifests.flatMap((manifest) => getPartKeys(manifest))
+    for (let i = 0; i < keys.length; i += this.clearBatchSize) {
+      const batch = keys.slice(i, i + this.clearBatchSize)
+      await (this.useUnlink
+        ? this.client.unlink(...batch)
+        : this.client.del(...batch))
+    }
+  }
+
+  /**
+   * Sets or removes the TTL of the parts of large values, so that they expire along with their manifest.
+   *
+   * @param manifests - the manifests of the values
+   * @param ttl - the new TTL in milliseconds, or undefined to remove it
+   *
+   * @private
+   */
+  private async updatePartsTtl(
+    manifests: LargeValueManifest[],
+    ttl?: number
+  ): Promise<void> {
+    if (manifests.every((manifest) => manifest.parts === 0)) return
+
+    const multi = this.client.multi()
+    this.addPartsTtl(multi, manifests, ttl)
+    await multi.exec()
+  }
+
+  /**
+   * Adds the commands that set or remove the TTL of the parts of large values to a transaction.
+   *
+   * @param multi - the transaction
+   * @param manifests - the manifests of the values
+   * @param ttl - the new TTL in milliseconds, or undefined to remove it
+   *
+   * @private
+   */
+  private addPartsTtl(
+    multi: ReturnType<Redis["multi"]>,
+    manifests: LargeValueManifest[],
+    ttl?: number
+  ): void {
+    for (const key of manifests.flatMap((manifest) => getPartKeys(manifest))) {
+      if (ttl === undefined) {
+        multi.persist(key)
+      } else {
+        multi.pexpire(key, ttl)
+      }
+    }
+  }
+
+  /**
+   * Set a key value pair in the store. TTL is in milliseconds.
+   *
+   * @param {string} key - the key to set
+   * @param {string} value - the value to set
+   * @param {number} [ttl] - the time to live in milliseconds
+   * @param {KeyvUpstashSetOptions} [options] - the tags to associate the key with and the mode of the write
+   * @returns {Promise<boolean>} - true if the value was set, false if the key did not satisfy `mode`
+   */
+  async set(
+    key: string,
+    value: any,
+    ttl?: number,
+    options: KeyvUpstashSetOptions = {}
+  ): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.set(key, value, ttl, options))
+    }
+
+    const write = await this.prepareWrite({ key, value, ttl, ...options })
+
+    // Conditional writes are not retried: a failed attempt may have been applied.
+    const written = await this.execute(
+      "set",
+      [key],
+      () => this.executeWrite(write),
+      {
+        idempotent: write.condition === undefined,
+        fallback: () => false,
+      }
+    )
+    if (written) await this.appendChange("set", [key])
+
+    return written
+  }
+
+  /**
+   * Will set many key value pairs in the store. TTL is in milliseconds. This will be done as a single transaction,
+   * or one per chunk when the entries exceed the `chunking` limits.
+   * Entries with a `mode` are written first, atomically with the check of their condition.
+   *
+   * @param {Array<KeyvRedisEntry<string>>} entries - the key value pairs to set with optional ttl, tags and mode
+   * @returns {Promise<Array<boolean>>} - whether each value was set
+   *
+   * @throws {KeyvUpstashBulkError} Throws an error with the keys that were not set if any of its chunks failed.
+   */
+  async setMany(entries: Array<KeyvUpstashEntry<string>>): Promise<boolean[]> {
+    if (this.shouldRoute()) {
+      return this.routeEach(
+        entries,
+        (entry) => entry.key,
+        (entries) => this.setMany(entries)
+      )
+    }
+
+    const chunked = await this.chunkEach(
+      "setMany",
+      entries,
+      (entry) => entry.key,
+      (entry) => getSize(entry.key) + getSize(entry.value),
+      (entries) => this.setMany(entries),
+      false
+    )
+    if (chunked) {
+      return chunked
+    }
+
+    const writes = await Promise.all(
+      entries.map((entry) => this.prepareWrite(entry))
+    )
+
+    const written = await this.execute(
+      "setMany",
+      entries.map((entry) => entry.key),
+      () => this.executeWrites(writes),
+      {
+        idempotent: writes.every((write) => write.condition === undefined),
+        fallback: () => writes.map(() => false),
+      }
+    )
+    await this.appendChange(
+      "set",
+      entries.filter((_, i) => written[i]).map((entry) => entry.key)
+    )
+
+    return written
+  }
+
+  /**
+   * Set a value only if the current value equals the expected one, atomically: the value is replaced only if
+   * it has not changed since it was compared. An `undefined` expected value means that the key must not exist.
+   * Values are compared after being decoded, with `util.isDeepStrictEqual`.
+   *
+   * @param {string} key - the key to set
+   * @param {any} expected - the value the key must currently have
+   * @param {any} next - the value to set
+   * @param {number} [ttl] - the time to live in milliseconds
+   * @returns {Promise<boolean>} - true if the value was set, false if the current value is not the expected one
+   */
+  async compareAndSet(
+    key: string,
+    expected: any,
+    next: any,
+    ttl?: number
+  ): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () =>
+        this.compareAndSet(key, expected, next, ttl)
+      )
+    }
+
+    const written = await this.execute(
+      "compareAndSet",
+      [key],
+      async () => {
+        const [{ value: current }] = await this.fetchValues(
+          [key],
+          this.namespace,
+          false
+        )
+        this.recordReads([current])
+        if (!isDeepStrictEqual(await this.decodeValue(current), expected)) {
+          return false
+        }
+
+        const write = await this.prepareWrite({ key, value: next, ttl })
+        if (current == undefined) {
+          write.condition = "nx"
+        } else {
+          write.condition = "value"
+          write.expected = String(current)
+        }
+
+        return this.executeWrite(write)
+      },
+      { idempotent: false, fallback: () => false }
+    )
+    if (written) await this.appendChange("set", [key])
+
+    return written
+  }
+
+  /**
+   * Get a value from the store along with its version, to update it later with `setIfVersion`.
+   *
+   * @template U - the type of the value to be returned. Defaults to `T`.
+   * @param {string} key - the key to get
+   * @returns {Promise<{ value: U | undefined; version: number }>} - the value and its version: 0 if the key does not
+   * exist, and 1 if it was set without `setIfVersion`
+   */
+  async getWithVersion<U = T>(
+    key: string
+  ): Promise<{ value: U | undefined; version: number }> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.getWithVersion<U>(key))
+    }
+
+    const current = await this.execute(
+      "getWithVersion",
+      [key],
+      async () => {
+        const [{ value }] = await this.fetchValues([key], this.namespace, false)
+        this.recordReads([value])
+
+        return value
+      },
+      { fallback: () => null }
+    )
+    const { value, metadata } = await this.decodeEntry<U>(current)
+
+    return {
+      value,
+      version: value === undefined ? 0 : (metadata?.version ?? 1),
+    }
+  }
+
+  /**
+   * Set a value only if its current version is the expected one, atomically, incrementing its version.
+   * Concurrent writers that read the same version cannot overwrite each other: only the first one succeeds.
+   *
+   * Every write of a versioned key should use `setIfVersion`: `set` resets the version to 1.
+   *
+   * @param {string} key - the key to set
+   * @param {any} value - the value to set
+   * @param {number} version - the current version of the value, as returned by `getWithVersion`
+   * @param {number} [ttl] - the time to live in milliseconds
+   * @returns {Promise<boolean>} - true if the value was set, false if its version has changed
+   */
+  async setIfVersion(
+    key: string,
+    value: any,
+    version: number,
+    ttl?: number
+  ): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () =>
+        this.setIfVersion(key, value, version, ttl)
+      )
+    }
+
+    const write = await this.prepareWrite(
+      { key, value, ttl },
+      { version: version + 1 }
+    )
+    write.condition = "version"
+    write.expected = String(version)
+
+    const written = await this.execute(
+      "setIfVersion",
+      [key],
+      () => this.executeWrite(write),
+      { idempotent: false, fallback: () => false }
+    )
+    if (written) await this.appendChange("set", [key])
+
+    return written
+  }
+
+  /**
+   * Prefixes the key of an entry (unless it is stored in a hash), encodes its value and computes its final TTL.
+   *
+   * If `staleWhileRevalidate` is set or a load duration is given, the value is stored with the time it gets stale
+   * and it is kept for `staleWhileRevalidate` milliseconds longer than its TTL. If `slidingExpiration` is enabled,
+   * the value is stored with its final TTL so it can be restored when the value is read. Large values are split
+   * into parts by `splitWrite`.
+   *
+   * @param entry - the entry to write
+   * @param options - how long it took to load the value, in milliseconds, and the version of the value
+   * @returns the write to execute
+   *
+   * @private
+   */
+  private async prepareWrite(
+    entry: KeyvUpstashEntry<any>,
+    {
+      loadDuration,
+      version,
+    }: Pick<KeyvUpstashValueMetadata, "loadDuration" | "version"> = {}
+  ): Promise<PreparedWrite> {
+    let px = entry.ttl ?? this.defaultTtl
+    let metadata: KeyvUpstashValueMetadata | undefined
+    if (
+      px !== undefined &&
+      (this.staleWhileRevalidate || loadDuration !== undefined)
+    ) {
+      metadata = { staleAt: Date.now() + px, loadDuration }
+      px += this.staleWhileRevalidate ?? 0
+    }
+    if (px !== undefined && this.slidingExpiration) {
+      metadata = { ...metadata, ttl: px }
+    }
+    if (version !== undefined) {
+      metadata = { ...metadata, version }
+    }
+
+    return this.splitWrite({
+      key: this.storage === "hash" ? entry.key : this.getKeyName(entry.key),
+      value: await this.encodeValue(entry.value, metadata),
+      px,
+      tags: entry.tags,
+      condition: entry.mode,
+    })
+  }
+
+  /**
+   * Executes a single write, using a transaction only if the key has tags, the index is enabled or keys are stored in a hash.
+   *
+   * @param write - the write to execute
+   * @returns whether the value was written, which is always the case unless the write has a condition
+   *
+   * @private
+   */
+  private async executeWrite(write: PreparedWrite): Promise<boolean> {
+    if (write.condition || this.largeValues) {
+      const [written] = await this.executeWrites([write])
+      return written
+    }
+
+    if (write.tags?.length || this.useIndex || this.storage === "hash") {
+      const multi = this.client.multi()
+      this.addWrite(multi, write)
+      await multi.exec()
+    } else if (write.px !== undefined) {
+      await this.client.set(write.key, write.value, { px: write.px })
+    } else {
+      await this.client.set(write.key, write.value)
+    }
+
+    this.memoryCache?.delete(this.getMemoryCacheKey(write.key))
+    this.readReplicas?.recordWrite()
+    this.recordMetrics((metrics) => {
+      metrics.bytesSent += getSize(write.value)
+    })
+
+    return true
+  }
+
+  /**
+   * Executes many writes in a transaction. The conditional writes come first, each checking its condition atomically
+   * with a script that also updates their index entry and tags, and the other writes follow.
+   * The parts of large values are deleted if the transaction fails.
+   *
+   * @param writes - the writes to execute
+   * @returns whether each value was written
+   *
+   * @private
+   */
+  private async executeWrites(writes: PreparedWrite[]): Promise<boolean[]> {
+    await this.writeParts(writes)
+
+    const conditionalWrites = writes.filter((write) => write.condition)
+    const multi = this.client.multi()
+    // The manifests of the values being replaced, read atomically with the writes to delete their parts afterwards.
+    if (this.largeValues) {
+      multi.eval(
+        GET_MANIFESTS_SCRIPT,
+        writes.map((write) => write.key),
+        []
+      )
+    }
+    for (const write of conditionalWrites) {
+      this.addConditionalWrite(multi, write)
+    }
+    for (const write of writes) {
+      if (!write.condition) this.addWrite(multi, write)
+    }
+    // The parts get the TTL of their value along with the manifest, after the writes so that their results come first.
+    for (const write of writes) {
+      if (write.parts) this.addPartsTtl(multi, [write.parts.manifest], write.px)
+    }
+
+    let results: unknown[]
+    try {
+      results = await multi.exec<unknown[]>()
+    } catch (error) {
+      await this.discardParts(writes)
+      throw error
+    }
+    const replaced = this.largeValues ? (results.shift() as unknown[]) : []
+    const skipped = new Set(
+      conditionalWrites.filter((_, i) => results[i] !== 1)
+    )
+    const written = writes.filter((write) => !skipped.has(write))
+
+    if (this.largeValues) {
+      // The parts of the replaced values, and of the values that were not written.
+      const obsolete: LargeValueManifest[] = []
+      for (const [i, write] of writes.entries()) {
+        const current = parseManifest(unwrapValue(write.value).value)
+        const previous = parseManifest(replaced[i])
+        const parts = skipped.has(write) ? current : previous
+        if (parts && current?.base !== previous?.base) {
+          obsolete.push(parts)
+        }
+      }
+      await this.deleteParts(obsolete)
+    }
+
+    this.memoryCache?.delete(
+      ...written.map((write) => this.getMemoryCacheKey(write.key))
+    )
+    this.readReplicas?.recordWrite()
+    this.recordMetrics((metrics) => {
+      for (const write of written) {
+        metrics.bytesSent += getSize(write.value)
+      }
+    })
+
+    return writes.map((write) => !skipped.has(write))
+  }
+
+  /**
+   * Adds a conditional write to a transaction, as a script that checks the condition and writes the value
+   * (and its expiry time in hash storage) atomically, along with its index entry and tags.
+   *
+   * @param multi - the transaction
+   * @param write - the conditional write to add
+   *
+   * @private
+   */
+  private addConditionalWrite(
+    multi: ReturnType<Redis["multi"]>,
+    write: PreparedWrite
+  ): void {
+    const condition = [write.condition, write.expected ?? ""]
+    const px = String(write.px ?? -1)
+    const tags = (write.tags ?? []).map((tag) =>
+      this.getInternalKeyName("tag", tag)
+    )
+
+    if (this.storage === "hash") {
+      multi.eval(
+        CONDITIONAL_SET_FIELD_SCRIPT,
+        [
+          this.getInternalKeyName("hash"),
+          this.getInternalKeyName("expiry"),
+          ...tags,
+        ],
+        [...condition, write.key, write.value, px, String(Date.now())]
+      )
+    } else if (this.useIndex) {
+      const score =
+        write.px === undefined ? NO_EXPIRY_SCORE : Date.now() + write.px
+      multi.eval(
+        CONDITIONAL_SET_SCRIPT,
+        [write.key, this.getInternalKeyName("index"), ...tags],
+        [...condition, write.value, px, String(score)]
+      )
+    } else {
+      multi.eval(
+        CONDITIONAL_SET_SCRIPT,
+        [write.key, ...tags],
+        [...condition, write.value, px, ""]
+      )
+    }
+  }
+
+  /**
+   * Adds the commands of a write to a transaction.
+   *
+   * @param multi - the transaction
+   * @param write - the write to add
+   *
+   * @private
+   */
+  private addWrite(
+    multi: ReturnType<Redis["multi"]>,
+    write: PreparedWrite
+  ): void {
+    if (this.storage === "hash") {
+      const expiryKey = this.getInternalKeyName("expiry")
+      multi.hset(this.getInternalKeyName("hash"), { [write.key]: write.value })
+      if (write.px === undefined) {
+        multi.zrem(expiryKey, write.key)
+      } else {
+        multi.zadd(expiryKey, {
+          score: Date.now() + write.px,
+          member: write.key,
+        })
+      }
+    } else if (write.px !== undefined) {
+      multi.set(write.key, write.value, { px: write.px })
+    } else {
+      multi.set(write.key, write.value)
+    }
+
+    this.addWriteEffects(multi, write)
+  }
+
+  /**
+   * Adds the commands that update the namespace index and the tags of a write to a transaction.
+   *
+   * @param multi - the transaction
+   * @param write - the write
+   *
+   * @private
+   */
+  private addWriteEffects(
+    multi: ReturnType<Redis["multi"]>,
+    write: PreparedWrite
+  ): void {
+    if (this.useIndex && this.storage === "string") {
+      multi.zadd(this.getInternalKeyName("index"), {
+        score: write.px === undefined ? NO_EXPIRY_SCORE : Date.now() + write.px,
+        member: write.key,
+      })
+    }
+
+    if (write.tags?.length) {
+      multi.eval(
+        ADD_TO_TAGS_SCRIPT,
+        write.tags.map((tag) => this.getInternalKeyName("tag", tag)),
+        [write.key, String(write.px ?? -1)]
+      )
+    }
+  }
+
+  /**
+   * Atomically increment a counter, creating it with the increment as its value if it does not exist.
+   * The TTL is only set when the counter is created, so the counter expires at a fixed time after its first increment.
+   * The counter can be read back with `get`, which returns its value as a string, e.g. `"5"`.
+   *
+   * Integer increments use `INCRBY` and fractional ones `INCRBYFLOAT`: once a counter holds a fractional value,
+   * it must be incremented by fractional values only. Counters are not compressed nor encrypted.
+   *
+   * @param {string} key - the key of the counter
+   * @param {number} [by=1] - the amount to add to the counter
+   * @param {KeyvUpstashIncrementOptions} [options] - the TTL of the counter
+   * @returns {Promise<number>} - the new value of the counter
+   */
+  async increment(
+    key: string,
+    by = 1,
+    options: KeyvUpstashIncrementOptions = {}
+  ): Promise<number> {
+    const [value] = await this.incrementMany([{ key, by, ...options }])
+
+    return value
+  }
+
+  /**
+   * Atomically decrement a counter, creating it with the negated decrement as its value if it does not exist.
+   * See `increment`.
+   *
+   * @param {string} key - the key of the counter
+   * @param {number} [by=1] - the amount to subtract from the counter
+   * @param {KeyvUpstashIncrementOptions} [options] - the TTL of the counter
+   * @returns {Promise<number>} - the new value of the counter
+   */
+  async decrement(
+    key: string,
+    by = 1,
+    options: KeyvUpstashIncrementOptions = {}
+  ): Promise<number> {
+    return this.increment(key, -by, options)
+  }
+
+  /**
+   * Atomically increment many counters with a single script. See `increment`.
+   *
+   * @param {Array<KeyvUpstashIncrementEntry>} entries - the counters to increment, with optional increments and TTLs
+   * @returns {Promise<Array<number>>} - the new values of the counters
+   */
+  async incrementMany(entries: KeyvUpstashIncrementEntry[]): Promise<number[]> {
+    if (this.shouldRoute()) {
+      return this.routeEach(
+        entries,
+        (entry) => entry.key,
+        (entries) => this.incrementMany(entries)
+      )
+    }
+
+    if (entries.length === 0) return []
+
+    const keys = entries.map((entry) => entry.key)
+    const operation = entries.length === 1 ? "increment" : "incrementMany"
+
+    // Not retried: the counters may have been incremented by an attempt that failed.
+    const values = await this.execute(
+      operation,
+      keys,
+      async () => {
+        const now = String(Date.now())
+        const args = entries.map((entry) => {
+          const by = entry.by ?? 1
+          const ttl = entry.ttl ?? this.defaultTtl
+
+          return {
+            integer: Number.isSafeInteger(by),
+            by: String(by),
+            ttl: String(ttl ?? -1),
+          }
+        })
+
+        let values: unknown[]
+        if (this.storage === "hash") {
+          values = await this.client.eval<string[], unknown[]>(
+            INCREMENT_FIELDS_SCRIPT,
+            [
+              this.getInternalKeyName("hash"),
+              this.getInternalKeyName("expiry"),
+            ],
+            [
+              now,
+              ...args.flatMap(({ integer, by, ttl }, i) => [
+                keys[i],
+                integer ? "HINCRBY" : "HINCRBYFLOAT",
+                by,
+                ttl,
+              ]),
+            ]
+          )
+        } else {
+          const prefixedKeys = keys.map((key) => this.getKeyName(key))
+          values = await this.client.eval<string[], unknown[]>(
+            INCREMENT_SCRIPT,
+            this.useIndex
+              ? [...prefixedKeys, this.getInternalKeyName("index")]
+              : prefixedKeys,
+            [
+              now,
+              this.useIndex ? "1" : "0",
+              ...args.flatMap(({ integer, by, ttl }) => [
+                integer ? "INCRBY" : "INCRBYFLOAT",
+                by,
+                ttl,
+              ]),
+            ]
+          )
+        }
+
+        this.memoryCache?.delete(...keys.map((key) => this.getKeyName(key)))
+        this.readReplicas?.recordWrite()
+
+        return values.map(Number)
+      },
+      { idempotent: false }
+    )
+    await this.appendChange("set", keys)
+
+    return values
+  }
+
+  /**
+   * Delete all the keys associated with any of the given tags, along with the tags themselves.
+   * Keys that have already expired are ignored.
+   *
+   * @remarks
+   * If `useUnlink` is set to true, the `unlink` method of the client will be used to delete the keys.
+   * Otherwise, the `del` method of the client will be used.
+   *
+   * @param {Array<string>} tags - the tags to invalidate
+   * @returns {Promise<number>} - the number of deleted keys
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (this.shouldRoute()) {
+      const deleted = await this.onEveryShard(() => this.invalidateTags(tags))
+
+      return deleted.reduce((total, count) => total + count, 0)
+    }
+
+    if (tags.length === 0) return 0
+
+    // Not retried: the tag sets are removed as soon as their keys are taken.
+    return this.execute(
+      "invalidateTags",
+      tags,
+      async () => {
+        const taggedKeys = await this.client.eval<string[], string[]>(
+          TAKE_TAGGED_KEYS_SCRIPT,
+          tags.map((tag) => this.getInternalKeyName("tag", tag)),
+          []
+        )
+        const keys = [...new Set(taggedKeys)]
+
+        let deleted = 0
+        for (let i = 0; i < keys.length; i += this.clearBatchSize) {
+          deleted += await this.deleteKeys(
+            keys.slice(i, i + this.clearBatchSize)
+          )
+        }
+
+        return deleted
+      },
+      { idempotent: false }
+    )
+  }
+
+  /**
+   * Get a value from the store or load and set it if the key does not exist.
+   *
+   * Only one caller loads the value at a time: concurrent calls for the same key on this instance share the same
+   * promise, and callers on other instances wait for the one holding a short lock (`SET NX PX`) to set the value.
+   * If the value is not set before `waitTimeout`, e.g. because the loader failed, the waiting caller loads it itself.
+   * Values loaded as `undefined` are not stored. Like the values read from the store, loaded values that are not
+   * strings are returned as JSON, so that every call returns the same value whether it was loaded or not.
+   *
+   * Stale values (see `staleWhileRevalidate`) are returned right away while one caller refreshes them in the background.
+   * With the `beta` option, values are also refreshed in the background before they get stale, with a probability
+   * that grows as they get closer to being stale.
+   *
+   * @template U - the type of the value to be returned. Defaults to `T`.
+   * @param {string} key - the key to get
+   * @param {() => U | Promise<U>} loader - the function that loads the value if the key does not exist
+   * @param {KeyvUpstashGetOrSetOptions} [options] - the ttl of the value and the lock options
+   * @returns {Promise<U>} - the existing or loaded value
+   */
+  async getOrSet<U = T>(
+    key: string,
+    loader: () => U | Promise<U>,
+    options: KeyvUpstashGetOrSetOptions = {}
+  ): Promise<U> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.getOrSet<U>(key, loader, options))
+    }
+
+    const prefixedKey = this.getKeyName(key)
+
+    const pending = this.pendingLoads.get(prefixedKey)
+    if (pending) {
+      return pending as Promise<U>
+    }
+
+    const promise = this.instrument("getOrSet", [key], () =>
+      this.getOrLoad(key, loader, options)
+    ).finally(() => this.pendingLoads.delete(prefixedKey))
+    this.pendingLoads.set(prefixedKey, promise)
+
+    return promise
+  }
+
+  /**
+   * Implements `getOrSet` without the in-process de-duplication.
+   *
+   * @private
+   */
+  private async getOrLoad<U>(
+    key: string,
+    loader: () => U | Promise<U>,
+    options: KeyvUpstashGetOrSetOptions
+  ): Promise<U> {
+    const lockTtl = options.lockTtl ?? 10_000
+    const deadline = Date.now() + (options.waitTimeout ?? lockTtl)
+    const lockKey = this.getInternalKeyName("lock", key)
+
+    const entry = await this.decodeEntry<U>(
+      await this.execute("getOrSet", [key], () => this.readValue(key), {
+        fallback: () => null,
+      })
+    )
+    if (entry.value !== undefined) {
+      if (
+        isStale(entry.metadata) ||
+        shouldRefreshEarly(entry.metadata, options.beta ?? 0)
+      ) {
+        this.refreshInBackground(key, loader, options)
+      }
+
+      return entry.value
+    }
+
+    let value: U | undefined
+    while (value === undefined) {
+      const lock = await this.acquireLock(key, lockKey, lockTtl)
+      if (lock === null) {
+        // There is no point in waiting for another caller to set the value while Upstash Redis is unavailable.
+        return this.load(key, loader, options)
+      }
+      if (lock) {
+        try {
+          // The value may have been set between the last read and taking the lock.
+          value = await this.get<U>(key)
+          return value === undefined
+            ? await this.load(key, loader, options)
+            : value
+        } finally {
+          await this.execute("getOrSet", [key], () => lock.release(), {
+            fallback: () => false,
+          })
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        return this.load(key, loader, options)
+      }
+
+      await sleep(options.pollInterval ?? 50)
+      value = await this.get<U>(key)
+    }
+
+    return value
+  }
+
+  /**
+   * Refreshes a value in the background unless it is already being refreshed by this or another instance.
+   * Errors are emitted as `error` events.
+   *
+   * @private
+   */
+  private refreshInBackground<U>(
+    key: string,
+    loader: () => U | Promise<U>,
+    options: KeyvUpstashGetOrSetOptions
+  ): void {
+    const prefixedKey = this.getKeyName(key)
+    if (this.pendingRefreshes.has(prefixedKey)) return
+
+    const refresh = async () => {
+      const lock = await this.acquireLock(
+        key,
+        this.getInternalKeyName("lock", key),
+        options.lockTtl ?? 10_000
+      )
+      if (!lock) return
+
+      try {
+        await this.load(key, loader, options)
+      } finally {
+        await this.execute("getOrSet", [key], () => lock.release(), {
+          fallback: () => false,
+        })
+      }
+    }
+
+    // The refresh outlives the `getOrSet` call that started it, so it is instrumented on its own.
+    const promise = this.currentMetrics
+      .exit(() => this.instrument("refresh", [key], refresh))
+      .catch((error) => {
+        this.emitFailure("getOrSet", [key], error)
+      })
+      .finally(() => this.pendingRefreshes.delete(prefixedKey))
+    this.pendingRefreshes.set(prefixedKey, promise)
+  }
+
+  /**
+   * Loads a value and sets it in the store unless it is `undefined`, recording how long it took to load.
+   *
+   * @private
+   */
+  private async load<U>(
+    key: string,
+    loader: () => U | Promise<U>,
+    options: KeyvUpstashGetOrSetOptions
+  ): Promise<U> {
+    const start = Date.now()
+    const value = await loader()
+    if (value !== undefined) {
+      const write = await this.prepareWrite(
+        { key, value, ttl: options.ttl, tags: options.tags },
+        { loadDuration: Date.now() - start }
+      )
+      await this.execute("getOrSet", [key], () => this.executeWrite(write), {
+        fallback: () => undefined,
+      })
+    }
+
+    // Return the value as later calls read it from the store, where values that are not strings are stored as JSON.
+    return (
+      typeof value === "string" || value === undefined
+        ? value
+        : JSON.stringify(value)
+    ) as U
+  }
+
+  /**
+   * Tries to acquire the lock `getOrSet` takes while loading the value of a key. Not retried, since the lock
+   * may have been acquired by an attempt that failed.
+   *
+   * @returns the lock, undefined if it is held by another caller, or null if Upstash Redis is unavailable and
+   * `failMode` is `open`, in which case nobody holds the lock
+   *
+   * @private
+   */
+  private async acquireLock(
+    key: string,
+    lockKey: string,
+    ttl: number
+  ): Promise<KeyvUpstashLock | undefined | null> {
+    return this.execute<KeyvUpstashLock | undefined | null>(
+      "getOrSet",
+      [key],
+      () => KeyvUpstashLock.tryAcquire(this.client, lockKey, ttl),
+      { idempotent: false, fallback: () => null }
+    )
+  }
+
+  /**
+   * Acquire a distributed lock, e.g. to run a job on a single instance at a time.
+   *
+   * The lock key is prefixed with the namespace, and it is the same lock `getOrSet` takes while loading the value
+   * of a key with the same name. The lock is released automatically after its TTL, unless it is extended.
+   *
+   * @param {string} name - the name of the lock
+   * @param {KeyvUpstashLockOptions} [options] - the ttl of the lock and how to retry if it is held by someone else
+   * @returns {Promise<KeyvUpstashLock>} - the lock handle, used to release or extend the lock
+   *
+   * @throws {Error} Throws an error if the lock could not be acquired, or the signal's reason if it was aborted.
+   */
+  async lock(
+    name: string,
+    options: KeyvUpstashLockOptions = {}
+  ): Promise<KeyvUpstashLock> {
+    if (this.shouldRoute()) {
+      return this.routeTo(name, () => this.lock(name, options))
+    }
+
+    const key = this.getInternalKeyName("lock", name)
+    const retry = options.retry ?? 0
+
+    for (let attempt = 0; ; attempt++) {
+      options.signal?.throwIfAborted()
+
+      const lock = await this.execute(
+        "lock",
+        [name],
+        () =>
+          KeyvUpstashLock.tryAcquire(this.client, key, options.ttl ?? 10_000),
+        { idempotent: false }
+      )
+      if (lock) {
+        return lock
+      }
+
+      if (attempt >= retry) {
+        throw new Error(`Could not acquire lock "${name}"`)
+      }
+
+      await sleep(options.retryDelay ?? 100, options.signal)
+    }
+  }
+
+  /**
+   * Count a request of an identifier against one or more rate limits, e.g. 10 requests per second and 1000 per hour.
+   * The limits are checked and updated atomically by a Lua script: the request is only counted if every limit
+   * allows it. Their keys are prefixed with the namespace, and with sharding they are stored in the shard of the
+   * identifier.
+   *
+   * If `failMode` is `open` and Upstash Redis fails, the error is emitted and the request is allowed.
+   *
+   * @param {string} identifier - who or what is rate limited, e.g. a user id or an IP address
+   * @param {KeyvUpstashRateLimit | KeyvUpstashRateLimit[]} limits - the limits to check the request against
+   * @param {KeyvUpstashRateLimitOptions} [options] - how many requests the request counts as, 0 to only check the limits
+   * @returns {Promise<KeyvUpstashRateLimitResult>} - whether the request is allowed, how many more are and when the limits reset
+   *
+   * @throws {Error} Throws an error if the limits or the cost are invalid.
+   */
+  async rateLimit(
+    identifier: string,
+    limits: KeyvUpstashRateLimit | KeyvUpstashRateLimit[],
+    { cost = 1 }: KeyvUpstashRateLimitOptions = {}
+  ): Promise<KeyvUpstashRateLimitResult> {
+    if (this.shouldRoute()) {
+      return this.routeTo(identifier, () =>
+        this.rateLimit(identifier, limits, { cost })
+      )
+    }
+
+    const resolved = resolveRateLimits(limits)
+    if (!Number.isInteger(cost) || cost < 0) {
+      throw new Error("The cost of a request must be a non-negative integer")
+    }
+
+    const now = Date.now()
+    const keys = resolved.map(({ name }) =>
+      this.getInternalKeyName(
+        "ratelimit",
+        `${name}${this.keyPrefixSeparator}${identifier}`
+      )
+    )
+    const args = [String(now), String(cost), randomUUID()]
+    for (const { algorithm, limit, window } of resolved) {
+      args.push(algorithm, String(limit), String(window))
+    }
+
+    // Counting a request is not idempotent: a failed attempt may have been counted.
+    return this.execute(
+      "rateLimit",
+      [identifier],
+      async () =>
+        toRateLimitResult(
+          resolved,
+          await this.client.eval<string[], number[]>(
+            RATE_LIMIT_SCRIPT,
+            keys,
+            args
+          )
+        ),
+      {
+        idempotent: false,
+        fallback: () => ({
+          allowed: true,
+          remaining: Math.min(...resolved.map(({ limit }) => limit)),
+          resetAt: now,
+          limits: resolved.map(({ name, limit }) => ({
+            name,
+            allowed: true,
+            remaining: limit,
+            resetAt: now,
+          })),
+        }),
+      }
+    )
+  }
+
+  /**
+   * Read the changes made to the namespace by every instance with the journal enabled, e.g. to invalidate the
+   * entries of a local cache that were written or deleted by other instances. The journal is read with `XREAD`,
+   * waiting `pollInterval` before reading again once every change has been read, until the signal is aborted.
+   *
+   * Only `set`, `setMany`, `setIfVersion`, `compareAndSet`, `increment`, `delete`, `deleteMany` and `clear()` are
+   * journaled. A consumer that falls behind by more than `maxLength` changes misses the changes that were trimmed.
+   * If `failMode` is `open`, failed reads are emitted as errors and retried after `pollInterval`.
+   *
+   * @param {KeyvUpstashChangesOptions} [options] - the change to read after, the page size, the poll interval and an abort signal
+   * @returns {AsyncGenerator<KeyvUpstashChangeEvent>} - the changes, in the order they were made
+   *
+   * @throws {Error} Throws an error if the journal is not enabled, or the signal's reason once it is aborted.
+   */
+  async *changes({
+    since,
+    count = 100,
+    pollInterval,
+    signal,
+  }: KeyvUpstashChangesOptions = {}): AsyncGenerator<
+    KeyvUpstashChangeEvent,
+    void,
+    unknown
+  > {
+    const journal = this.journal
+    if (!journal) {
+      throw new Error("The journal is not enabled")
+    }
+
+    const key = this.getInternalKeyName("journal")
+
+    let lastId =
+      since ??
+      (await this.execute("changes", [], async () => {
+        const [last] = parseJournalEntries(
+          await this.primaryClient.xrevrange(key, "+", "-", 1)
+        )
+
+        return last?.id ?? "0-0"
+      }))
+
+    while (true) {
+      signal?.throwIfAborted()
+
+      const changes = await this.execute(
+        "changes",
+        [],
+        async () => {
+          const result = (await this.primaryClient.xread(key, lastId, {
+            count,
+          })) as Array<[string, unknown]> | null
+
+          return parseJournalEntries(result?.[0]?.[1])
+        },
+        { fallback: () => [] }
+      )
+
+      for (const change of changes) {
+        lastId = change.id
+        yield change
+      }
+
+      if (changes.length < count) {
+        await sleep(pollInterval ?? journal.pollInterval, signal)
+      }
+    }
+  }
+
+  /**
+   * Check if a key exists in the store.
+   *
+   * @param {string} key - the key to check
+   * @returns {Promise<boolean>} - true if the key exists, false if not
+   */
+  async has(key: string): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.has(key))
+    }
+
+    return this.instrument("has", [key], async () => {
+      if (this.memoryCache?.has(this.getKeyName(key))) {
+        this.recordExists([true])
+        return true
+      }
+
+      return this.execute(
+        "has",
+        [key],
+        async () => {
+          let exists: boolean
+          if (this.hasBatcher) {
+            exists = await this.hasBatcher.load(this.getKeyName(key), {
+              key,
+              namespace: this.namespace,
+              shard: this.currentShard.getStore(),
+            })
+          } else if (this.storage === "hash") {
+            const [result] = await this.hashTransaction((multi, hashKey) => {
+              multi.hexists(hashKey, key)
+            })
+            exists = result === 1
+          } else {
+            const result: number = await this.readFromReplica((client) =>
+              client.exists(this.getKeyName(key))
+            )
+            exists = result === 1
+          }
+
+          this.recordExists([exists])
+          return exists
+        },
+        { fallback: () => false }
+      )
+    })
+  }
+
+  /**
+   * Check if many keys exist in the store. This will be done as a single transaction, or one per chunk when the keys
+   * exceed the `chunking` limits.
+   *
+   * @param {Array<string>} keys - the keys to check
+   * @returns {Promise<Array<boolean>>} - array of booleans for each key if it exists
+   *
+   * @throws {KeyvUpstashBulkError} Throws an error with the keys that were not checked if any of its chunks failed.
+   */
+  async hasMany(keys: string[]): Promise<boolean[]> {
+    if (this.shouldRoute()) {
+      return this.routeEach(
+        keys,
+        (key) => key,
+        (keys) => this.hasMany(keys)
+      )
+    }
+
+    const chunked = await this.chunkEach(
+      "hasMany",
+      keys,
+      (key) => key,
+      getSize,
+      (keys) => this.hasMany(keys),
+      false
+    )
+    if (chunked) {
+      return chunked
+    }
+
+    return this.instrument("hasMany", keys, async () => {
+      const memoryCache = this.memoryCache
+      const cached = keys.map(
+        (key) => memoryCache?.has(this.getKeyName(key)) ?? false
+      )
+      const missingKeys = keys.filter((_, i) => !cached[i])
+      this.recordExists(cached.filter(Boolean))
+
+      const exists =
+        missingKeys.length > 0
+          ? await this.execute(
+              "hasMany",
+              missingKeys,
+              async () => {
+                const exists = await this.existMany(missingKeys)
+                this.recordExists(exists)
+
+                return exists
+              },
+              { fallback: () => missingKeys.map(() => false) }
+            )
+          : []
+
+      let next = 0
+      return cached.map((isCached) => isCached || exists[next++])
+    })
+  }
+
+  /**
+   * Checks if many keys exist in Upstash Redis, in a single transaction.
+   *
+   * @param keys - the keys to check
+   * @param namespace - the namespace of the keys. Defaults to the current namespace.
+   * @returns whether each key exists
+   *
+   * @private
+   */
+  private async existMany(
+    keys: string[],
+    namespace = this.namespace
+  ): Promise<boolean[]> {
+    if (this.storage === "hash") {
+      const results = await this.hashTransaction((multi, hashKey) => {
+        for (const key of keys) {
+          multi.hexists(hashKey, key)
+        }
+      }, namespace)
+
+      return results.map((result) => result === 1)
+    }
+
+    const results = await this.readFromReplica((client) => {
+      const multi = client.multi()
+      for (const key of keys) {
+        multi.exists(this.getKeyName(key, namespace))
+      }
+
+      return multi.exec<number[]>()
+    })
+
+    return results.map((result) => result === 1)
+  }
+
+  /**
+   * Get a value from the store. If the key does not exist, it will return undefined.
+   *
+   * @template U - the type of the value to be returned. Defaults to `T`.
+   * @param {string} key - the key to get
+   * @returns {Promise<U | undefined>} - the value or undefined if the key does not exist
+   */
+  async get<U = T>(key: string): Promise<U | undefined> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.get<U>(key))
+    }
+
+    const value = await this.execute("get", [key], () => this.readValue(key), {
+      fallback: () => null,
+    })
+
+    return this.decodeValue<U>(value)
+  }
+
+  /**
+   * Get a value from the store along with whether it is stale, i.e. its TTL has passed but it is still kept
+   * because of `staleWhileRevalidate`. If the key does not exist, the value will be undefined.
+   *
+   * @template U - the type of the value to be returned. Defaults to `T`.
+   * @param {string} key - the key to get
+   * @returns {Promise<{ value: U | undefined; stale: boolean }>} - the value and whether it is stale
+   */
+  async getWithStaleness<U = T>(
+    key: string
+  ): Promise<{ value: U | undefined; stale: boolean }> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.getWithStaleness<U>(key))
+    }
+
+    const { value, metadata } = await this.decodeEntry<U>(
+      await this.execute("getWithStaleness", [key], () => this.readValue(key), {
+        fallback: () => null,
+      })
+    )
+
+    return { value, stale: value !== undefined && isStale(metadata) }
+  }
+
+  /**
+   * Get many values from the store. If a key does not exist, it will return undefined.
+   * The keys are read in one request per chunk when they exceed the `chunking` limits.
+   *
+   * @param {Array<string>} keys - the keys to get
+   * @returns {Promise<Array<U | undefined>>} - array of values or undefined if the key does not exist
+   *
+   * @throws {KeyvUpstashBulkError} Throws an error with the keys that were not read if any of its chunks failed.
+   */
+  async getMany<U = T>(keys: string[]): Promise<Array<U | undefined>> {
+    if (this.shouldRoute()) {
+      return this.routeEach(
+        keys,
+        (key) => key,
+        (keys) => this.getMany<U>(keys)
+      )
+    }
+
+    const chunked = await this.chunkEach<string, U | undefined>(
+      "getMany",
+      keys,
+      (key) => key,
+      getSize,
+      (keys) => this.getMany<U>(keys),
+      undefined
+    )
+    if (chunked) {
+      return chunked
+    }
+
+    const values = await this.execute(
+      "getMany",
+      keys,
+      async () => {
+        const values = await this.readValues(keys)
+        this.recordReads(values)
+
+        return values
+      },
+      { fallback: () => keys.map(() => null) }
+    )
+
+    return Promise.all(values.map((value) => this.decodeValue<U>(value)))
+  }
+
+  /**
+   * Get the remaining TTL of a key.
+   *
+   * @param {string} key - the key to check
+   * @returns {Promise<number | undefined>} - the remaining TTL in milliseconds, `Infinity` if the key does not expire,
+   * or undefined if the key does not exist
+   */
+  async getTtl(key: string): Promise<number | undefined> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.getTtl(key))
+    }
+
+    return this.execute(
+      "getTtl",
+      [key],
+      async () => {
+        if (this.storage === "hash") {
+          const [exists, expiresAt] = await this.hashTransaction(
+            (multi, hashKey, expiryKey) => {
+              multi.hexists(hashKey, key)
+              multi.zscore(expiryKey, key)
+            }
+          )
+          if (exists !== 1) return undefined
+
+          return expiresAt == undefined
+            ? Infinity
+            : Math.max(Number(expiresAt) - Date.now(), 0)
+        }
+
+        const ttl = await this.client.pttl(this.getKeyName(key))
+        if (ttl === -2) return undefined
+
+        return ttl === -1 ? Infinity : ttl
+      },
+      { fallback: () => undefined }
+    )
+  }
+
+  /**
+   * Get a value from the store along with its remaining TTL, in a single round trip. The memory cache is bypassed.
+   *
+   * @template U - the type of the value to be returned. Defaults to `T`.
+   * @param {string} key - the key to get
+   * @returns {Promise<{ value: U | undefined; ttl?: number }>} - the value and its remaining TTL in milliseconds
+   * (`Infinity` if it does not expire), or an undefined value and TTL if the key does not exist
+   */
+  async getWithTtl<U = T>(
+    key: string
+  ): Promise<{ value: U | undefined; ttl?: number }> {
+    const [entry] = await this.readWithTtl<U>("getWithTtl", [key])
+
+    return entry
+  }
+
+  /**
+   * Get many values from the store along with their remaining TTL, in a single round trip. See `getWithTtl`.
+   *
+   * @template U - the type of the values to be returned. Defaults to `T`.
+   * @param {Array<string>} keys - the keys to get
+   * @returns {Promise<Array<{ value: U | undefined; ttl?: number }>>} - the values and their remaining TTL
+   */
+  async getManyWithTtl<U = T>(
+    keys: string[]
+  ): Promise<Array<{ value: U | undefined; ttl?: number }>> {
+    return this.readWithTtl<U>("getManyWithTtl", keys)
+  }
+
+  /**
+   * Reads and decodes values along with their remaining TTL, bypassing the memory cache.
+   *
+   * @private
+   */
+  private async readWithTtl<U>(
+    operation: string,
+    keys: string[]
+  ): Promise<Array<{ value: U | undefined; ttl?: number }>> {
+    if (this.shouldRoute()) {
+      return this.routeEach(
+        keys,
+        (key) => key,
+        (keys) => this.readWithTtl<U>(operation, keys)
+      )
+    }
+
+    const fetched = await this.execute(
+      operation,
+      keys,
+      async () => {
+        const fetched = await this.fetchValues(keys, this.namespace, true)
+        this.recordReads(fetched.map(({ value }) => value))
+
+        return fetched
+      },
+      { fallback: () => keys.map(() => ({ value: null })) }
+    )
+
+    return Promise.all(
+      fetched.map(async ({ value, ttl }) => {
+        const decoded = await this.decodeValue<U>(value)
+
+        return decoded === undefined
+          ? { value: undefined }
+          : { value: decoded, ttl: ttl ?? Infinity }
+      })
+    )
+  }
+
+  /**
+   * Set the TTL of a key without rewriting its value.
+   *
+   * The time the value gets stale (see `staleWhileRevalidate`) and the TTL of the tags of the key are left as they are,
+   * so a key whose TTL is extended may be missed by `invalidateTags` once its tags have expired.
+   *
+   * @param {string} key - the key to update
+   * @param {number} ttl - the new time to live in milliseconds
+   * @returns {Promise<boolean>} - true if the key exists, false if not
+   */
+  async touch(key: string, ttl: number): Promise<boolean> {
+    return this.updateTtl("touch", key, ttl)
+  }
+
+  /**
+   * Remove the TTL of a key so it never expires, without rewriting its value. See `touch`.
+   *
+   * @param {string} key - the key to update
+   * @returns {Promise<boolean>} - true if the key exists, false if not
+   */
+  async persist(key: string): Promise<boolean> {
+    return this.updateTtl("persist", key)
+  }
+
+  /**
+   * Sets or removes the TTL of a key if it exists, with `PEXPIRE` or `PERSIST`, keeping the namespace index or
+   * the expiry index of the namespace hash up to date.
+   *
+   * @param operation - the name of the operation
+   * @param key - the key to update
+   * @param ttl - the new TTL in milliseconds, or undefined to remove it
+   * @returns whether the key exists
+   *
+   * @private
+   */
+  private async updateTtl(
+    operation: string,
+    key: string,
+    ttl?: number
+  ): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.updateTtl(operation, key, ttl))
+    }
+
+    return this.execute(
+      operation,
+      [key],
+      async () => {
+        const now = String(Date.now())
+        let updated: number
+        if (this.storage === "hash") {
+          updated = await this.client.eval<string[], number>(
+            UPDATE_FIELD_TTL_SCRIPT,
+            [
+              this.getInternalKeyName("hash"),
+              this.getInternalKeyName("expiry"),
+            ],
+            [key, String(ttl ?? -1), now]
+          )
+        } else {
+          const prefixedKey = this.getKeyName(key)
+          updated = await this.client.eval<string[], number>(
+            UPDATE_TTL_SCRIPT,
+            this.useIndex
+              ? [prefixedKey, this.getInternalKeyName("index")]
+              : [prefixedKey],
+            [String(ttl ?? -1), now]
+          )
+          if (updated === 1) {
+            await this.updatePartsTtl(
+              await this.readManifests([prefixedKey]),
+              ttl
+            )
+          }
+        }
+
+        this.memoryCache?.delete(this.getKeyName(key))
+        this.readReplicas?.recordWrite()
+
+        return updated === 1
+      },
+      { fallback: () => false }
+    )
+  }
+
+  /**
+   * Reads the raw value of a key, from the memory cache if it is enabled, and counts it as a hit or a miss.
+   * If batching is enabled, the key is read along with the other keys read within the batching window.
+   *
+   * @param key - the key to read
+   * @returns the raw value, or null if the key does not exist
+   *
+   * @private
+   */
+  private async readValue(key: string): Promise<unknown> {
+    const [value] = this.getBatcher
+      ? [
+          await this.getBatcher.load(this.getKeyName(key), {
+            key,
+            namespace: this.namespace,
+            shard: this.currentShard.getStore(),
+          }),
+        ]
+      : await this.readValues([key])
+    this.recordReads([value])
+
+    return value
+  }
+
+  /**
+   * Reads the raw values of keys, from the memory cache if it is enabled.
+   * The values missing from memory are read from Upstash Redis and kept in memory. With `slidingExpiration`, the TTL
+   * of the values read from memory is restored in Upstash Redis.
+   *
+   * @param keys - the keys to read
+   * @param namespace - the namespace of the keys. Defaults to the current namespace.
+   * @returns the raw values, null for the keys that do not exist
+   *
+   * @private
+   */
+  private async readValues(
+    keys: string[],
+    namespace = this.namespace
+  ): Promise<unknown[]> {
+    const memoryCache = this.memoryCache
+    if (!memoryCache) {
+      const fetched = await this.fetchValues(keys, namespace)
+      return fetched.map(({ value }) => value)
+    }
+
+    const values = keys.map((key) =>
+      memoryCache.get(this.getKeyName(key, namespace))
+    )
+    const missingKeys = keys.filter((_, i) => values[i] === undefined)
+    // The TTL of the values read from memory is restored in Upstash Redis, along with the read of the others.
+    const cachedKeys = keys.filter((_, i) => values[i] !== undefined)
+    const restored =
+      this.slidingExpiration && cachedKeys.length > 0
+        ? this.restoreTtls(cachedKeys, namespace)
+        : undefined
+    if (missingKeys.length === 0) {
+      await restored
+      return values
+    }
+
+    const [fetched] = await Promise.all([
+      this.fetchValues(missingKeys, namespace),
+      restored,
+    ])
+    const fetchedValues = new Map<string, unknown>()
+    for (const [i, key] of missingKeys.entries()) {
+      const { value, ttl } = fetched[i]
+      if (value != undefined) {
+        memoryCache.set(this.getKeyName(key, namespace), value, ttl)
+      }
+      fetchedValues.set(key, value)
+    }
+
+    return keys.map((key, i) => values[i] ?? fetchedValues.get(key))
+  }
+
+  /**
+   * Restores the TTL of keys for `slidingExpiration`, without reading their values, e.g. for the values read from
+   * the memory cache.
+   *
+   * @param keys - the keys whose TTL to restore
+   * @param namespace - the namespace of the keys. Defaults to the current namespace.
+   *
+   * @private
+   */
+  private async restoreTtls(
+    keys: string[],
+    namespace = this.namespace
+  ): Promise<void> {
+    const now = String(Date.now())
+    const defaultTtl = String(this.defaultTtl ?? -1)
+
+    if (this.storage === "hash") {
+      await this.client.eval(
+        SLIDE_FIELDS_SCRIPT,
+        [
+          this.getInternalKeyName("hash", undefined, namespace),
+          this.getInternalKeyName("expiry", undefined, namespace),
+        ],
+        [now, defaultTtl, ...keys]
+      )
+      return
+    }
+
+    const prefixedKeys = keys.map((key) => this.getKeyName(key, namespace))
+    await this.client.eval(
+      SLIDE_SCRIPT,
+      this.useIndex
+        ? [
+            ...prefixedKeys,
+            this.getInternalKeyName("index", undefined, namespace),
+          ]
+        : prefixedKeys,
+      [now, defaultTtl, this.useIndex ? "1" : "0"]
+    )
+  }
+
+  /**
+   * Reads the raw values of keys from Upstash Redis with `GET` or `MGET`, or `HGET` or `HMGET` in hash storage.
+   * If `withTtl` is set, the remaining TTL of the keys is read in the same transaction. If `slidingExpiration` is
+   * enabled, the TTL of the keys is restored in the same transaction, before they are read.
+   *
+   * @param keys - the keys to read
+   * @param namespace - the namespace of the keys. Defaults to the current namespace.
+   * @param withTtl - whether to read the remaining TTL of the keys. Defaults to whether the memory cache is enabled.
+   * @returns the raw values, null for the keys that do not exist, with their remaining TTL in milliseconds if it was read
+   * and they expire
+   *
+   * @private
+   */
+  private async fetchValues(
+    keys: string[],
+    namespace = this.namespace,
+    withTtl = this.memoryCache !== undefined
+  ): Promise<Array<{ value: unknown; ttl?: number }>> {
+    const now = Date.now()
+    const defaultTtl = String(this.defaultTtl ?? -1)
+
+    if (this.storage === "hash") {
+      const results = await this.hashTransaction(
+        (multi, hashKey, expiryKey) => {
+          if (this.slidingExpiration) {
+            multi.eval(
+              SLIDE_FIELDS_SCRIPT,
+              [hashKey, expiryKey],
+              [String(now), defaultTtl, ...keys]
+            )
+          }
+
+          if (keys.length === 1) {
+            multi.hget(hashKey, keys[0])
+          } else {
+            multi.hmget(hashKey, ...keys)
+          }
+
+          if (withTtl) {
+            for (const key of keys) {
+              multi.zscore(expiryKey, key)
+            }
+          }
+        },
+        namespace
+      )
+      const [values, ...expiresAt] = this.slidingExpiration
+        ? results.slice(1)
+        : results
+
+      return toValueArray(keys, values).map((value, i) => ({
+        value,
+        ttl:
+          expiresAt[i] == undefined
+            ? undefined
+            : Number(expiresAt[i]) - Date.now(),
+      }))
+    }
+
+    const prefixedKeys = keys.map((key) => this.getKeyName(key, namespace))
+    if (!withTtl && !this.slidingExpiration) {
+      const values = await this.readFromReplica(async (client) =>
+        keys.length === 1
+          ? [await client.get(prefixedKeys[0])]
+          : await client.mget(prefixedKeys)
+      )
+
+      return values.map((value) => ({ value }))
+    }
+
+    // Sliding expiration writes the TTLs, so only plain reads go to the replicas.
+    const read = (client: Redis) => {
+      const multi = client.multi()
+      if (this.slidingExpiration) {
+        const useIndex = this.useIndex
+        multi.eval(
+          SLIDE_SCRIPT,
+          useIndex
+            ? [
+                ...prefixedKeys,
+                this.getInternalKeyName("index", undefined, namespace),
+              ]
+            : prefixedKeys,
+          [String(now), defaultTtl, useIndex ? "1" : "0"]
+        )
+      }
+      if (keys.length === 1) {
+        multi.get(prefixedKeys[0])
+      } else {
+        multi.mget(prefixedKeys)
+      }
+      if (withTtl) {
+        for (const key of prefixedKeys) {
+          multi.pttl(key)
+        }
+      }
+
+      return multi.exec<unknown[]>()
+    }
+
+    const results = this.slidingExpiration
+      ? await read(this.client)
+      : await this.readFromReplica(read)
+    const [values, ...ttls] = this.slidingExpiration
+      ? results.slice(1)
+      : results
+
+    return toValueArray(keys, values).map((value, i) => ({
+      value,
+      ttl: (ttls[i] as number) >= 0 ? (ttls[i] as number) : undefined,
+    }))
+  }
+
+  /**
+   * Reads a batch of keys collected by a batcher, with one read per namespace.
+   *
+   * @param items - the distinct keys of the batch, with their namespace
+   * @param read - reads the keys of a namespace
+   * @returns the values of the keys, in the same order
+   *
+   * @private
+   */
+  private async loadBatch<V>(
+    items: BatchedKey[],
+    read: (keys: string[], namespace?: string) => Promise<V[]>
+  ): Promise<V[]> {
+    const groups = new Map<
+      string,
+      { namespace?: string; shard?: number; indexes: number[] }
+    >()
+    for (const [i, { namespace, shard }] of items.entries()) {
+      const id = JSON.stringify([namespace, shard])
+      const group = groups.get(id) ?? { namespace, shard, indexes: [] }
+      group.indexes.push(i)
+      groups.set(id, group)
+    }
+
+    const values: V[] = []
+    await Promise.all(
+      [...groups.values()].map(async ({ namespace, shard, indexes }) => {
+        const results = await this.onShard(shard, () =>
+          read(
+            indexes.map((i) => items[i].key),
+            namespace
+          )
+        )
+        for (const [j, i] of indexes.entries()) {
+          values[i] = results[j]
+        }
+      })
+    )
+
+    return values
+  }
+
+  /**
+   * Runs commands on the namespace hash in a transaction, right after removing its expired fields.
+   *
+   * @param addCommands - adds the commands to the transaction, given the keys of the hash and of its expiry index
+   * @param namespace - the namespace of the hash. Defaults to the current namespace.
+   * @returns the results of the added commands
+   *
+   * @private
+   */
+  private async hashTransaction(
+    addCommands: (
+      multi: ReturnType<Redis["multi"]>,
+      hashKey: string,
+      expiryKey: string
+    ) => void,
+    namespace = this.namespace
+  ): Promise<unknown[]> {
+    const hashKey = this.getInternalKeyName("hash", undefined, namespace)
+    const expiryKey = this.getInternalKeyName("expiry", undefined, namespace)
+
+    const multi = this.client.multi()
+    multi.eval(
+      EVICT_EXPIRED_FIELDS_SCRIPT,
+      [hashKey, expiryKey],
+      [String(Date.now()), String(this.clearBatchSize)]
+    )
+    addCommands(multi, hashKey, expiryKey)
+
+    const [, ...results] = await multi.exec<unknown[]>()
+
+    return results
+  }
+
+  /**
+   * Deletes the specified key(s) from the storage.
+   *
+   * @param key - A single key or an array of keys to be deleted.
+   * @returns A promise that resolves to a boolean indicating whether any key was deleted.
+   *
+   * @remarks
+   * If `useUnlink` is set to true, the `unlink` method of the client will be used to delete the keys.
+   * Otherwise, the `del` method of the client will be used.
+   *
+   * @private
+   */
+  private async genericDelete(key: string | string[]): Promise<boolean> {
+    let keys = Array.isArray(key) ? key : [key]
+    if (this.storage === "string") {
+      keys = keys.map((key) => this.getKeyName(key))
+    }
+
+    const deleted = await this.deleteKeys(keys)
+
+    return deleted > 0
+  }
+
+  /**
+   * Deletes prefixed keys with `UNLINK` or `DEL` depending on `useUnlink`, and removes them from the namespace index
+   * in the same transaction if it is enabled. In hash storage, the keys are the fields removed from the namespace hash
+   * with `HDEL`.
+   *
+   * @param keys - the prefixed keys, or fields in hash storage, to delete
+   * @param namespace - the namespace of the index or hash to remove the keys from. Defaults to the current namespace.
+   * @returns the number of deleted keys
+   *
+   * @private
+   */
+  private async deleteKeys(
+    keys: string[],
+    namespace = this.namespace
+  ): Promise<number> {
+    this.memoryCache?.delete(
+      ...keys.map((key) => this.getMemoryCacheKey(key, namespace))
+    )
+    this.readReplicas?.recordWrite()
+
+    if (this.storage === "hash") {
+      const [deleted] = await this.hashTransaction(
+        (multi, hashKey, expiryKey) => {
+          multi.hdel(hashKey, ...keys)
+          multi.zrem(expiryKey, ...keys)
+        },
+        namespace
+      )
+
+      return deleted as number
+    }
+
+    const manifests = await this.readManifests(keys)
+
+    let deleted: number
+    if (!this.useIndex) {
+      deleted = this.useUnlink
+        ? await this.client.unlink(...keys)
+        : await this.client.del(...keys)
+    } else {
+      const multi = this.client.multi()
+      if (this.useUnlink) {
+        multi.unlink(...keys)
+      } else {
+        multi.del(...keys)
+      }
+      multi.zrem(
+        this.getInternalKeyName("index", undefined, namespace),
+        ...keys
+      )
+      ;[deleted] = await multi.exec<[number, number]>()
+    }
+
+    await this.deleteParts(manifests)
+
+    return deleted
+  }
+
+  /**
+   * Delete a key from the store.
+   *
+   * @param {string} key - the key to delete
+   * @returns {Promise<boolean>} - true if the key was deleted, false if not
+   */
+  async delete(key: string): Promise<boolean> {
+    if (this.shouldRoute()) {
+      return this.routeTo(key, () => this.delete(key))
+    }
+
+    const deleted = await this.execute(
+      "delete",
+      [key],
+      () => this.genericDelete(key),
+      { fallback: () => false }
+    )
+    if (deleted) await this.appendChange("delete", [key])
+
+    return deleted
+  }
+
+  /**
+   * Delete many keys from the store. This will be done as a single transaction, or one per chunk when the keys
+   * exceed the `chunking` limits.
+   *
+   * @param {Array<string>} keys - the keys to delete
+   * @returns {Promise<boolean>} - true if any key was deleted, false if not
+   *
+   * @throws {KeyvUpstashBulkError} Throws an error with the keys that were not deleted if any of its chunks failed.
+   */
+  async deleteMany(keys: string[]): Promise<boolean> {
+    if (this.shouldRoute()) {
+      const deleted = await this.routeGroups(
+        keys,
+        (key) => key,
+        (keys) => this.deleteMany(keys)
+      )
+
+      return deleted.some(Boolean)
+    }
+
+    const chunked = await this.chunkEach(
+      "deleteMany",
+      keys,
+      (key) => key,
+      getSize,
+      async (keys) => {
+        const deleted = await this.deleteMany(keys)
+
+        return keys.map(() => deleted)
+      },
+      false
+    )
+    if (chunked) {
+      return chunked.some(Boolean)
+    }
+
+    const deleted = await this.execute(
+      "deleteMany",
+      keys,
+      () => this.genericDelete(keys),
+      { fallback: () => false }
+    )
+    if (deleted) await this.appendChange("delete", keys)
+
+    return deleted
+  }
+
+  /**
+   * Scans the keys of the current namespace in batches of `clearBatchSize`.
+   * If no namespace is set, keys with a namespace are filtered out.
+   *
+   * @returns {AsyncGenerator<string[], void, unknown>} - async iterator with non-empty batches of prefixed keys
+   *
+   * @private
+   */
+  private async *scanKeys(): AsyncGenerator<string[], void, unknown> {
+    let cursor = "0"
+    const match = this.namespace
+      ? `${escapeGlob(`${this.namespace}${this.keyPrefixSeparator}`)}*`
+      : "*"
+
+    do {
       const result = await this.client.scan(Number.parseInt(cursor, 10), {
         match,
+        count: this.clearBatchSize,
         type: "string",
       })
+
+      cursor = result[0]
+      let keys = result[1]
+
+      // If no namespace is provided, filter out keys with a namespace.
+      if (!this.namespace) {
+        keys = keys.filter((key) => !key.includes(this.keyPrefixSeparator))
+      }
+
+      if (keys.length > 0) {
+        yield keys
+      }
+    } while (cursor !== "0")
+  }
+
+  /**
+   * Clear all keys in the store.
+   *
+   * IMPORTANT: this can cause performance issues if there are a large number of keys in the store. Use with caution as not recommended for production.
+   *
+   * If a namespace is not set it will clear all keys.
+   * If a namespace is set it will clear all keys with that namespace (`FLUSHDB`).
+   * If `useIndex` is enabled, only the keys in the namespace index are cleared, without scanning the database.
+   * In hash storage, the namespace hash is deleted with a single command.
+   *
+   * @remarks
+   * If `useUnlink` is set to true, the `unlink` method of the client will be used to delete the keys.
+   * Otherwise, the `del` method of the client will be used.
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    if (this.shouldRoute()) {
+      const cleared = await this.onEveryShard(() => this.clearOrEmit())
+
+      // Journaled once every shard is cleared, so consumers do not read values that are about to be cleared, and
+      // only if they all were, so they do not drop values that still exist.
+      if (cleared.every(Boolean)) await this.appendChange("clear", [])
+
+      return
+    }
+
+    if ((await this.clearOrEmit()) && !this.sharding) {
+      await this.appendChange("clear", [])
+    }
+  }
+
+  /**
+   * Implements `clear()` without journaling it, emitting its error instead of throwing it.
+   *
+   * @returns whether the keys were cleared
+   *
+   * @private
+   */
+  private async clearOrEmit(): Promise<boolean> {
+    this.memoryCache?.clear()
+    this.readReplicas?.recordWrite()
+
+    try {
+      await this.execute("clear", [], () => this.clearKeys())
+      /* c8 ignore next 4 */
+    } catch (error) {
+      this.emitFailure("clear", [], error)
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Implements `clear()` without catching errors.
+   *
+   * @private
+   */
+  private async clearKeys(): Promise<void> {
+    if (!this.namespace && this.noNamespaceAffectsAll) {
+      await this.client.flushdb()
+    } else if (this.storage === "hash") {
+      const keys = [
+        this.getInternalKeyName("hash"),
+        this.getInternalKeyName("expiry"),
+      ]
+      if (this.useUnlink) {
+        await this.client.unlink(...keys)
+      } else {
+        await this.client.del(...keys)
+      }
+    } else if (this.useIndex) {
+      const indexKey = this.getInternalKeyName("index")
+
+      let keys: string[]
+      do {
+        keys = await this.client.zrange<string[]>(
+          indexKey,
+          0,
+          this.clearBatchSize - 1
+        )
+        if (keys.length > 0) {
+          await this.deleteKeys(keys)
+        }
+      } while (keys.length > 0)
+    } else {
+      for await (const keys of this.scanKeys()) {
+        await this.deleteKeys(keys)
+      }
+    }
+  }
+
+  /**
+   * Re-encrypts all the values in the namespace that were encrypted with a key other than the current one,
+   * so the old keys can be removed from the `encryption` options afterwards. The TTL of the entries is kept.
+   *
+   * Values are only replaced if they have not been changed since they were read, so it is safe to run this
+   * while other clients are writing to the store.
+   *
+   * @returns {Promise<number>} - the number of re-encrypted values
+   *
+   * @throws {Error} Throws an error if encryption is not enabled.
+   */
+  async reencrypt(): Promise<number> {
+    if (this.shouldRoute()) {
+      const reencrypted = await this.onEveryShard(() => this.reencrypt())
+
+      return reencrypted.reduce((total, count) => total + count, 0)
+    }
+
+    const encryption = this.encryption
+    if (!encryption) {
+      throw new Error("Encryption is not enabled")
+    }
+
+    return this.execute("reencrypt", [], async () => {
+      let reencrypted = 0
+      for await (const [keys, values] of this.rawEntries()) {
+        const updateKeys: string[] = []
+        const updateArgs: string[] = []
+        // Large values are joined, and written back as new parts if their manifest has not changed.
+        const largeWrites: PreparedWrite[] = []
+        for (const [i, key] of keys.entries()) {
+          const isLarge =
+            parseManifest(unwrapValue(values[i]).value) !== undefined
+          const { value, metadata } = unwrapValue(
+            isLarge ? await this.joinValue(values[i]) : values[i]
+          )
+          if (
+            !isEncryptedValue(value) ||
+            getEncryptionKeyId(value) === encryption.currentKeyId
+          ) {
+            continue
+          }
+
+          const reencryptedValue = encryptValue(
+            decryptValue(value, encryption),
+            encryption
+          )
+          const reencryptedRawValue = metadata
+            ? wrapValue(reencryptedValue, metadata)
+            : reencryptedValue
+          if (isLarge) {
+            const pttl = await this.client.pttl(key)
+            largeWrites.push(
+              this.splitWrite({
+                key,
+                value: reencryptedRawValue,
+                px: pttl < 0 ? undefined : Math.max(pttl, 1),
+                condition: "value",
+                expected: values[i] as string,
+              })
+            )
+          } else {
+            updateKeys.push(key)
+            updateArgs.push(values[i] as string, reencryptedRawValue)
+          }
+        }
+
+        if (largeWrites.length > 0) {
+          const written = await this.executeWrites(largeWrites)
+          reencrypted += written.filter(Boolean).length
+        }
+
+        if (updateKeys.length === 0) continue
+
+        if (this.storage === "hash") {
+          reencrypted += await this.client.eval<string[], number>(
+            REPLACE_UNCHANGED_FIELDS_SCRIPT,
+            [this.getInternalKeyName("hash")],
+            updateKeys.flatMap((key, i) => [
+              key,
+              updateArgs[i * 2],
+              updateArgs[i * 2 + 1],
+            ])
+          )
+        } else {
+          reencrypted += await this.client.eval<string[], number>(
+            REPLACE_UNCHANGED_SCRIPT,
+            updateKeys,
+            updateArgs
+          )
+        }
+      }
+
+      // The values kept in memory may have been encrypted with a key that is about to be removed.
+      this.memoryCache?.clear()
+      this.readReplicas?.recordWrite()
+
+      return reencrypted
+    })
+  }
+
+  /**
+   * Moves the keys of a namespace to another namespace or separator in place, keeping their TTL, e.g. after changing
+   * `keyPrefixSeparator`. The keys are all scanned first, and then renamed in batches with a Lua script, so an
+   * interrupted migration can be resumed by running it again: the keys that were moved are no longer found under
+   * their old name, or, if the target prefix extends the source one, are recorded until the migration completes.
+   * The namespace index is updated, and the parts of large values are moved with them, but tags still reference the
+   * old names of the keys. In hash storage, the namespace hash is renamed as a whole.
+   *
+   * Emits a `migration-progress` event after every batch, with the keys that were moved (or would be, in a dry run).
+   *
+   * @param {KeyvUpstashMigrationOptions} options - where the keys are stored, where to move them, and how
+   * @returns {Promise<KeyvUpstashMigrationResult>} - the number of keys moved, skipped and ignored
+   *
+   * @throws {Error} Throws an error if the source and the target are the same.
+   */
+  async migrateNamespace({
+    from,
+    to,
+    dryRun = false,
+    overwrite = false,
+    batchSize = this.clearBatchSize,
+  }: KeyvUpstashMigrationOptions): Promise<KeyvUpstashMigrationResult> {
+    const fromSeparator = from.separator ?? this.keyPrefixSeparator
+    const toSeparator = to.separator ?? this.keyPrefixSeparator
+    const sourcePrefix = from.namespace
+      ? `${from.namespace}${fromSeparator}`
+      : ""
+    const targetPrefix = to.namespace ? `${to.namespace}${toSeparator}` : ""
+    if (
+      from.namespace === to.namespace &&
+      (fromSeparator === toSeparator || !from.namespace)
+    ) {
+      throw new Error("The source and the target of the migration are the same")
+    }
+
+    if (this.shouldRoute()) {
+      const results = await this.onEveryShard(() =>
+        this.migrateNamespace({ from, to, dryRun, overwrite, batchSize })
+      )
+
+      return results.reduce(
+        (total, { migrated, skipped, ignored }) => ({
+          migrated: total.migrated + migrated,
+          skipped: total.skipped + skipped,
+          ignored: total.ignored + ignored,
+        }),
+        { migrated: 0, skipped: 0, ignored: 0 }
+      )
+    }
+
+    const flags = [dryRun ? "1" : "0", overwrite ? "1" : "0"]
+
+    const result = await this.execute("migrateNamespace", [], async () => {
+      const result: KeyvUpstashMigrationResult = {
+        migrated: 0,
+        skipped: 0,
+        ignored: 0,
+      }
+
+      if (this.storage === "hash") {
+        const [source, target] = [from, to].map(({ namespace }, i) =>
+          (["hash", "expiry"] as const).map((type) =>
+            this.getInternalKeyName(
+              type,
+              undefined,
+              namespace,
+              i === 0 ? fromSeparator : toSeparator
+            )
+          )
+        )
+        const [migrated, skipped] = await this.client.eval<string[], number[]>(
+          MIGRATE_HASH_SCRIPT,
+          [...source, ...target],
+          flags
+        )
+        result.migrated = migrated
+        result.skipped = skipped
+        this.emit("migration-progress", {
+          ...result,
+          renamed: migrated > 0 ? [{ from: source[0], to: target[0] }] : [],
+        })
+
+        return result
+      }
+
+      // Keys that already have their new name also match the source pattern if the target prefix starts with the
+      // source one. Their names can be the ones of other keys of the source namespace, so the new names are kept in a
+      // set until the migration completes, including across interrupted runs.
+      const trackMoved = !dryRun && targetPrefix.startsWith(sourcePrefix)
+      const movedKey = this.getInternalKeyName(
+        "migrated",
+        undefined,
+        to.namespace,
+        toSeparator
+      )
+      const scriptKeys = [
+        this.getInternalKeyName(
+          "index",
+          undefined,
+          from.namespace,
+          fromSeparator
+        ),
+        this.getInternalKeyName("index", undefined, to.namespace, toSeparator),
+        movedKey,
+      ]
+
+      const partArgs = this.largeValues
+        ? [
+            this.getInternalKeyName("part", "", from.namespace, fromSeparator),
+            this.getInternalKeyName("part", "", to.namespace, toSeparator),
+            fromSeparator,
+            toSeparator,
+          ]
+        : [""]
+
+      // The keys are all found before any is renamed, since renaming keys during a scan may make it miss others.
+      const sourceKeys: string[] = []
+      let cursor = "0"
+      do {
+        const [next, scanned] = await this.client.scan(cursor, {
+          match: `${escapeGlob(sourcePrefix)}*`,
+          count: batchSize,
+          type: "string",
+        })
+        cursor = next
+
+        let keys = scanned.filter(
+          (key) => !key.includes(`${INTERNAL_KEY_PREFIX}${fromSeparator}`)
+        )
+        if (trackMoved && keys.length > 0) {
+          const moved = await this.client.smismember(movedKey, keys)
+          keys = keys.filter((_, i) => moved[i] !== 1)
+        }
+        for (const key of keys) {
+          // Without a namespace, keys whose name contains the separator belong to a namespace.
+          if (!from.namespace && key.includes(fromSeparator)) {
+            result.ignored++
+          } else {
+            sourceKeys.push(key)
+          }
+        }
+      } while (cursor !== "0")
+
+      for (let i = 0; i < sourceKeys.length; i += batchSize) {
+        const renamed = sourceKeys.slice(i, i + batchSize).map((key) => ({
+          from: key,
+          to: `${targetPrefix}${key.slice(sourcePrefix.length)}`,
+        }))
+        const statuses = await this.client.eval<string[], number[]>(
+          MIGRATE_KEYS_SCRIPT,
+          [...scriptKeys, ...renamed.flatMap(({ from, to }) => [from, to])],
+          [
+            ...flags,
+            this.useIndex ? "1" : "0",
+            String(NO_EXPIRY_SCORE),
+            String(Date.now()),
+            trackMoved ? "1" : "0",
+            ...partArgs,
+          ]
+        )
+        result.migrated += statuses.filter((status) => status === 1).length
+        result.skipped += statuses.filter((status) => status === 0).length
+        this.emit("migration-progress", {
+          ...result,
+          renamed: renamed.filter((_, j) => statuses[j] === 1),
+        })
+      }
+
+      if (trackMoved) {
+        await this.client.del(movedKey)
+      }
+
+      return result
+    })
+
+    if (!dryRun) {
+      // The values kept in memory are stored under the old names.
+      this.memoryCache?.clear()
+      this.readReplicas?.recordWrite()
+    }
+
+    return result
+  }
+
+  /**
+   * Moves the keys of the namespace that are not stored in their shard to it, e.g. after a shard was added.
+   * Every shard is scanned, and the keys that belong to another shard are written there with their remaining TTL,
+   * unless the key has been set there since, and then deleted from the shard they were found in. Tags are not moved.
+   *
+   * Emits a `rebalance-progress` event after every batch.
+   *
+   * @param {KeyvUpstashRebalanceOptions} [options] - whether to only count the keys to move, and how many to move at once
+   * @returns {Promise<KeyvUpstashRebalanceResult>} - the number of keys scanned and moved
+   *
+   * @throws {Error} Throws an error if sharding is not enabled.
+   */
+  async rebalance({
+    dryRun = false,
+    batchSize = this.clearBatchSize,
+  }: KeyvUpstashRebalanceOptions = {}): Promise<KeyvUpstashRebalanceResult> {
+    const sharding = this.sharding
+    if (!sharding) {
+      throw new Error("Sharding is not enabled")
+    }
+
+    const result: KeyvUpstashRebalanceResult = { scanned: 0, moved: 0 }
+
+    for (let shard = 0; shard < sharding.size; shard++) {
+      const moveBatch = async (records: KeyvUpstashExportRecord[]) => {
+        const keys = records.map(({ key }) => key)
+        if (!dryRun) {
+          const writes = records.map(({ key, value, pttl }) =>
+            this.splitWrite({
+              key: this.storage === "hash" ? key : this.getKeyName(key),
+              value,
+              px: pttl < 0 ? undefined : Math.max(pttl, 1),
+              condition: "nx",
+            })
+          )
+
+          await this.execute("rebalance", keys, () =>
+            this.routeEach(
+              writes,
+              (_, i) => keys[i],
+              (writes) => this.executeWrites(writes)
+            )
+          )
+          await this.onShard(shard, () =>
+            this.execute("rebalance", keys, () => this.genericDelete(keys))
+          )
+        }
+
+        result.moved += records.length
+        this.emit("rebalance-progress", { ...result })
+      }
+
+      const entries = this.onShardIterator(
+        shard,
+        this.iterateEntries<string>(
+          this.namespace,
+          { withTtl: true },
+          { cursor: "0" },
+          async (value) => this.joinRawValue(value)
+        )
+      )
+
+      let batch: KeyvUpstashExportRecord[] = []
+      for await (const [key, value, ttl] of entries as AsyncGenerator<
+        KeyvUpstashIteratorEntryWithTtl<string>
+      >) {
+        result.scanned++
+        // Large values whose parts are missing are left where they are.
+        if (sharding.shardOf(key) === shard || value === undefined) continue
+
+        batch.push({
+          key,
+          value: value as string,
+          pttl: ttl === Infinity ? -1 : ttl,
+        })
+        if (batch.length === batchSize) {
+          await moveBatch(batch)
+          batch = []
+        }
+      }
+      if (batch.length > 0) {
+        await moveBatch(batch)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Reads the raw values of the current namespace in batches of `clearBatchSize`, scanning the keys, without the keys
+   * used internally by the adapter, or, in hash storage, the fields of the namespace hash.
+   *
+   * @returns async iterator with non-empty batches of prefixed keys (or fields) and their raw values
+   *
+   * @private
+   */
+  private async *rawEntries(): AsyncGenerator<
+    [string[], unknown[]],
+    void,
+    unknown
+  > {
+    if (this.storage === "string") {
+      for await (const batch of this.scanKeys()) {
+        const keys = batch.filter((key) => !this.isInternalKey(key))
+        if (keys.length > 0) {
+          yield [keys, await this.client.mget<unknown[]>(keys)]
+        }
+      }
+
+      return
+    }
+
+    for await (const { keys, values = [] } of this.scannedFields(
+      this.namespace
+    )) {
+      yield [keys, values]
+    }
+  }
+
+  /**
+   * Scans the fields of a namespace hash in pages, after removing the fields that have expired.
+   *
+   * @param namespace - the namespace of the hash
+   * @param options - where to start the scan, the number of fields per page (defaults to `clearBatchSize`) and the pattern they match
+   * @returns async iterator with non-empty pages of fields and their raw values
+   *
+   * @private
+   */
+  private async *scannedFields(
+    namespace?: string,
+    { cursor = "0", count = this.clearBatchSize, match }: ScanOptions = {}
+  ): AsyncGenerator<ScannedPage, void, unknown> {
+    const hashKey = this.getInternalKeyName("hash", undefined, namespace)
+    const expiryKey = this.getInternalKeyName("expiry", undefined, namespace)
+
+    // Expired fields are removed in batches, until a batch is not full.
+    let evicted: number
+    do {
+      evicted = await this.execute("iterator", [], () =>
+        this.client.eval<string[], number>(
+          EVICT_EXPIRED_FIELDS_SCRIPT,
+          [hashKey, expiryKey],
+          [String(Date.now()), String(this.clearBatchSize)]
+        )
+      )
+    } while (evicted === this.clearBatchSize)
+
+    do {
+      const result = await this.execute("iterator", [], () =>
+        this.client.hscan(hashKey, cursor, { count, match })
+      )
+      cursor = result[0]
+
+      const keys: string[] = []
+      const values: unknown[] = []
+      for (let i = 0; i < result[1].length; i += 2) {
+        keys.push(String(result[1][i]))
+        values.push(result[1][i + 1])
+      }
+
+      if (keys.length > 0) {
+        yield { keys, values, cursor }
+      }
+    } while (cursor !== "0")
+  }
+
+  /**
+   * Scans the keys of a namespace index in pages with `ZSCAN`, after removing the keys that have expired.
+   *
+   * @param namespace - the namespace of the index
+   * @param options - where to start the scan, the number of keys per page and the pattern of the prefixed keys
+   * @returns async iterator with non-empty pages of prefixed keys
+   *
+   * @private
+   */
+  private async *indexedKeys(
+    namespace: string | undefined,
+    { cursor = "0", count, match }: ScanOptions
+  ): AsyncGenerator<ScannedPage, void, unknown> {
+    const indexKey = this.getInternalKeyName("index", undefined, namespace)
+    await this.execute("iterator", [], () =>
+      this.client.zremrangebyscore(indexKey, 0, Date.now())
+    )
+
+    do {
+      const result = await this.execute("iterator", [], () =>
+        this.client.zscan(indexKey, cursor, { count, match })
+      )
+      cursor = result[0]
+
+      // Members and their scores are interleaved.
+      const keys = result[1]
+        .filter((_, i) => i % 2 === 0)
+        .map((key) => String(key))
+
+      if (keys.length > 0) {
+        yield { keys, cursor }
+      }
+    } while (cursor !== "0")
+  }
+
+  /**
+   * Get an async iterator for the keys and values in the store. If a namespace is provided, it will only iterate over keys with that namespace.
+   * If not namespace is provided, depending on the `noNamespaceAffectsAll` option, it will iterate over all keys or only keys without a namespace.
+   * If `useIndex` is enabled, it scans the namespace index instead of the database, unless it iterates over all keys.
+   * In hash storage, it scans the fields of the namespace hash with `HSCAN`, so keys of other namespaces are never included.
+   *
+   * The iterator exposes the `cursor` to resume iterating from with the `startCursor` option, e.g. to export a large
+   * namespace across several invocations of a serverless function.
+   *
+   * If `failMode` is `open` and Upstash Redis fails, the error is emitted and the iteration stops.
+   *
+   * @param {string} [namespace] - the namespace to iterate over
+   * @param {KeyvUpstashIteratorOptions} [options] - the page size, the pattern of the keys, what to read for each key, an abort signal and the cursor to start from
+   * @returns {KeyvUpstashIterator<KeyvUpstashIteratorEntry<U>>} - async iterator with key value pairs, followed by the TTL with `withTtl`
+   */
+  public iterator<U = T>(
+    namespace?: string,
+    options?: KeyvUpstashIteratorOptions & { withTtl?: false }
+  ): KeyvUpstashIterator<KeyvUpstashIteratorEntry<U>>
+  public iterator<U = T>(
+    namespace: string | undefined,
+    options: KeyvUpstashIteratorOptions & { withTtl: true }
+  ): KeyvUpstashIterator<KeyvUpstashIteratorEntryWithTtl<U>>
+  public iterator<U = T>(
+    namespace?: string,
+    options: KeyvUpstashIteratorOptions = {}
+  ): KeyvUpstashIterator<
+    KeyvUpstashIteratorEntry<U> | KeyvUpstashIteratorEntryWithTtl<U>
+  > {
+    const state = { cursor: options.startCursor ?? "0", done: false }
+
+    return Object.defineProperties(
+      this.iterateSafely<U>(namespace, options, state),
+      {
+        cursor: { get: () => state.cursor },
+        done: { get: () => state.done },
+      }
+    ) as KeyvUpstashIterator<
+      KeyvUpstashIteratorEntry<U> | KeyvUpstashIteratorEntryWithTtl<U>
+    >
+  }
+
+  /**
+   * Get an async iterator for the keys of the current namespace, without their values.
+   *
+   * @param {KeyvUpstashIteratorOptions} [options] - the page size, the pattern of the keys, an abort signal and the cursor to start from
+   * @returns {KeyvUpstashIterator<string>} - async iterator with the keys
+   */
+  public keys(
+    options: Omit<KeyvUpstashIteratorOptions, "keysOnly" | "withTtl"> = {}
+  ): KeyvUpstashIterator<string> {
+    const entries = this.iterator(this.namespace, {
+      ...options,
+      keysOnly: true,
+    })
+    const keys = (async function* () {
+      for await (const [key] of entries) {
+        yield key
+      }
+    })()
+
+    return Object.defineProperties(keys, {
+      cursor: { get: () => entries.cursor },
+      done: { get: () => entries.done },
+    }) as KeyvUpstashIterator<string>
+  }
+
+  /**
+   * Implements `iterator`, emitting the errors instead of throwing them if `failMode` is `open`, and marking the
+   * iteration as done once every entry has been yielded. The reason of an aborted signal is always thrown.
+   *
+   * @private
+   */
+  private async *iterateSafely<U>(
+    namespace: string | undefined,
+    options: KeyvUpstashIteratorOptions,
+    state: { cursor: string; done: boolean }
+  ): AsyncGenerator<
+    KeyvUpstashIteratorEntry<U> | KeyvUpstashIteratorEntryWithTtl<U>,
+    void,
+    unknown
+  > {
+    try {
+      yield* this.iterateEntries<U>(namespace, options, state)
+      state.done = true
+    } catch (error) {
+      if (this.failMode === "closed" || options.signal?.aborted) {
+        throw error
+      }
+
+      this.emitFailure("iterator", [], error)
+    }
+  }
+
+  /**
+   * Export the entries of a namespace as a stream of NDJSON records with their key, their value as it is stored
+   * and their remaining TTL, e.g. to snapshot a namespace and restore it into another database with `import`.
+   * Unlike `iterator`, the stream always fails if Upstash Redis fails, even if `failMode` is `open`.
+   *
+   * @param {string} [namespace] - the namespace to export. Defaults to the namespace of the adapter.
+   * @returns {Readable} - a readable stream (and async iterable) of NDJSON lines
+   */
+  export(namespace = this.namespace): Readable {
+    return Readable.from(this.exportRecords(namespace))
+  }
+
+  /**
+   * Serializes the entries of a namespace for `export`.
+   *
+   * @private
+   */
+  private async *exportRecords(
+    namespace: string | undefined
+  ): AsyncGenerator<string, void, unknown> {
+    const entries = this.iterateEntries<string>(
+      namespace,
+      { withTtl: true },
+      { cursor: "0" },
+      async (value) => this.joinRawValue(value)
+    )
+
+    for await (const [key, value, ttl] of entries as AsyncGenerator<
+      KeyvUpstashIteratorEntryWithTtl<string>
+    >) {
+      // Large values whose parts are missing are not exported.
+      if (value === undefined) continue
+
+      yield serializeExportRecord({
+        key,
+        value: value as string,
+        pttl: ttl === Infinity ? -1 : ttl,
+      })
+    }
+  }
+
+  /**
+   * Import the NDJSON records of an export into the namespace of the adapter, in transactions of `clearBatchSize` records.
+   * Values are written as they were exported, so the adapter must use the same compression and encryption options.
+   * Emits an `import-progress` event after every transaction.
+   *
+   * @param {KeyvUpstashImportSource} source - the chunks of the export, e.g. the stream returned by `export` or a file read stream
+   * @param {KeyvUpstashImportOptions} [options] - whether to overwrite existing keys and to restore the TTLs
+   * @returns {Promise<KeyvUpstashImportProgress>} - the number of records imported and skipped
+   * @throws {Error} Throws an error if a line is not a valid record. The transactions before it have been imported.
+   */
+  async import(
+    source: KeyvUpstashImportSource,
+    { mode = "overwrite", preserveTtl = true }: KeyvUpstashImportOptions = {}
+  ): Promise<KeyvUpstashImportProgress> {
+    const progress: KeyvUpstashImportProgress = { imported: 0, skipped: 0 }
+
+    const importBatch = async (records: KeyvUpstashExportRecord[]) => {
+      const writes = records.map(({ key, value, pttl }) =>
+        this.splitWrite({
+          key: this.storage === "hash" ? key : this.getKeyName(key),
+          value,
+          px: preserveTtl
+            ? pttl < 0
+              ? undefined
+              : Math.max(pttl, 1)
+            : this.defaultTtl,
+          condition: mode === "skip-existing" ? "nx" : undefined,
+        })
+      )
+
+      const written = await this.execute(
+        "import",
+        records.map(({ key }) => key),
+        () =>
+          this.shouldRoute()
+            ? this.routeEach(
+                writes,
+                (_, i) => records[i].key,
+                (writes) => this.executeWrites(writes)
+              )
+            : this.executeWrites(writes),
+        { idempotent: mode === "overwrite" }
+      )
+      const imported = written.filter(Boolean).length
+      progress.imported += imported
+      progress.skipped += written.length - imported
+      this.emit("import-progress", { ...progress })
+    }
+
+    let batch: KeyvUpstashExportRecord[] = []
+    for await (const record of parseExportRecords(source)) {
+      batch.push(record)
+      if (batch.length === this.clearBatchSize) {
+        await importBatch(batch)
+        batch = []
+      }
+    }
+    if (batch.length > 0) {
+      await importBatch(batch)
+    }
+
+    return progress
+  }
+
+  /**
+   * Implements `iterator` without handling failures, moving the cursor of `state` once each page has been consumed.
+   *
+   * @param namespace - the namespace to iterate over
+   * @param options - the iterator options
+   * @param state - the cursor of the iteration
+   * @param decode - decodes the raw values, defaults to `decodeValue`
+   *
+   * @private
+   */
+  private async *iterateEntries<U>(
+    namespace: string | undefined,
+    { pageSize, match, keysOnly, withTtl, signal }: KeyvUpstashIteratorOptions,
+    state: { cursor: string },
+    decode: (value: unknown) => Promise<U | undefined> = (value) =>
+      this.decodeValue<U>(value)
+  ): AsyncGenerator<
+    KeyvUpstashIteratorEntry<U> | KeyvUpstashIteratorEntryWithTtl<U>,
+    void,
+    unknown
+  > {
+    signal?.throwIfAborted()
+
+    if (this.shouldRoute()) {
+      yield* this.iterateShards<U>(
+        namespace,
+        { pageSize, match, keysOnly, withTtl, signal },
+        state,
+        decode
+      )
+
+      return
+    }
+
+    const scanOptions: ScanOptions = {
+      cursor: state.cursor,
+      count: pageSize ?? this.clearBatchSize,
+    }
+    let pages: AsyncGenerator<ScannedPage, void, unknown>
+    let useIndex = false
+    if (this.storage === "hash") {
+      pages = this.scannedFields(namespace, { ...scanOptions, match })
+    } else {
+      const prefix = namespace ? `${namespace}${this.keyPrefixSeparator}` : ""
+      scanOptions.match = `${escapeGlob(prefix)}${match ?? "*"}`
+      useIndex = this.useIndex && (!!namespace || !this.noNamespaceAffectsAll)
+      pages = useIndex
+        ? this.indexedKeys(namespace, scanOptions)
+        : this.scannedKeys(namespace, scanOptions)
+    }
+
+    const getKeyWithoutPrefix = (key: string) => {
+      if (!namespace || this.storage === "hash") return key
+
+      return key.replace(`${namespace}${this.keyPrefixSeparator}`, "")
+    }
+
+    // Keys that are in the index but have expired or were deleted by another client.
+    const missingKeys: string[] = []
+    for await (const page of pages) {
+      const { values, ttls } = await this.readPage(page, namespace, {
+        keysOnly,
+        withTtl,
+      })
+
+      for (const [i, key] of page.keys.entries()) {
+        const value = values?.[i]
+        const ttl = ttls?.[i]
+
+        if ((values && value == undefined) || ttl === null) {
+          missingKeys.push(key)
+          continue
+        }
+
+        const decoded = keysOnly ? undefined : await decode(value)
+        yield withTtl
+          ? [getKeyWithoutPrefix(key), decoded, ttl as number]
+          : [getKeyWithoutPrefix(key), decoded]
+        signal?.throwIfAborted()
+      }
+
+      state.cursor = page.cursor
+    }
+    state.cursor = "0"
+
+    // A replica may not have received the keys yet, so only the keys missing from the primary are removed.
+    if (useIndex && !this.readReplicas && missingKeys.length > 0) {
+      await this.execute("iterator", missingKeys, () =>
+        this.client.zrem(
+          this.getInternalKeyName("index", undefined, namespace),
+          ...missingKeys
+        )
+      )
+    }
+  }
+
+  /**
+   * Implements `iterateEntries` with sharding, iterating over the shards one after the other.
+   * The cursor of `state` is the index of the shard followed by `:` and the cursor within the shard.
+   *
+   * @private
+   */
+  private async *iterateShards<U>(
+    namespace: string | undefined,
+    options: KeyvUpstashIteratorOptions,
+    state: { cursor: string },
+    decode: (value: unknown) => Promise<U | undefined>
+  ): AsyncGenerator<
+    KeyvUpstashIteratorEntry<U> | KeyvUpstashIteratorEntryWithTtl<U>,
+    void,
+    unknown
+  > {
+    const size = this.sharding?.size ?? 1
+    const separator = state.cursor.indexOf(":")
+    const shardState = { cursor: state.cursor.slice(separator + 1) }
+    let shard = separator === -1 ? 0 : Number(state.cursor.slice(0, separator))
+
+    for (; shard < size; shard++) {
+      const entries = this.onShardIterator(
+        shard,
+        this.iterateEntries<U>(namespace, options, shardState, decode)
+      )
+      for await (const entry of entries) {
+        state.cursor = `${shard}:${shardState.cursor}`
+        yield entry
+      }
+
+      shardState.cursor = "0"
+      state.cursor = shard + 1 < size ? `${shard + 1}:0` : "0"
+    }
+  }
+
+  /**
+   * Reads what `iterator()` yields for a page of keys: their raw values unless `keysOnly` is set, and their
+   * remaining TTL with `withTtl`. Hash storage values are scanned along with the fields, so only the TTL is read.
+   *
+   * @param page - the scanned page
+   * @param namespace - the namespace being iterated over
+   * @param options - what to read
+   * @returns the raw values, if read, and the TTLs (`Infinity` if the key does not expire, `null` if it does not exist), if read
+   *
+   * @private
+   */
+  private async readPage(
+    page: ScannedPage,
+    namespace: string | undefined,
+    {
+      keysOnly,
+      withTtl,
+    }: Pick<KeyvUpstashIteratorOptions, "keysOnly" | "withTtl">
+  ): Promise<{ values?: unknown[]; ttls?: Array<number | null> }> {
+    const { keys } = page
+
+    return this.execute("iterator", keys, async () => {
+      if (this.storage === "hash") {
+        const values = keysOnly ? undefined : page.values
+        if (values) this.recordReads(values)
+        if (!withTtl) return { values }
+
+        const now = Date.now()
+        const expiresAt = await this.client.zmscore(
+          this.getInternalKeyName("expiry", undefined, namespace),
+          keys
+        )
+        const ttls = keys.map((_, i) =>
+          expiresAt?.[i] == undefined
+            ? Infinity
+            : Math.max(Number(expiresAt[i]) - now, 0)
+        )
+
+        return { values, ttls }
+      }
+
+      if (!withTtl) {
+        if (keysOnly) return {}
+
+        const values = await this.readFromReplica((client) =>
+          client.mget<unknown[]>(keys)
+        )
+        this.recordReads(values)
+
+        return { values }
+      }
+
+      const results = await this.readFromReplica((client) => {
+        const multi = client.multi()
+        if (!keysOnly) multi.mget(keys)
+        for (const key of keys) {
+          multi.pttl(key)
+        }
+
+        return multi.exec<unknown[]>()
+      })
+      const values = keysOnly ? undefined : (results.shift() as unknown[])
+      if (values) this.recordReads(values)
+      // -1 means the key does not expire, -2 that it does not exist.
+      const ttls = (results as number[]).map((ttl) =>
+        ttl === -1 ? Infinity : ttl === -2 ? null : ttl
+      )
+
+      return { values, ttls }
+    })
+  }
+
+  /**
+   * Scans the keys of a namespace for `iterator()`, skipping the keys used internally by the adapter.
+   * If no namespace is provided, keys with a namespace are filtered out unless `noNamespaceAffectsAll` is enabled.
+   *
+   * @param namespace - the namespace to scan
+   * @param options - where to start the scan, the number of keys per page and the pattern of the prefixed keys
+   * @returns async iterator with non-empty pages of prefixed keys
+   *
+   * @private
+   */
+  private async *scannedKeys(
+    namespace: string | undefined,
+    { cursor = "0", count, match }: ScanOptions
+  ): AsyncGenerator<ScannedPage, void, unknown> {
+    do {
+      const result = await this.execute("iterator", [], () =>
+        this.client.scan(cursor, { match, count, type: "string" })
+      )
       cursor = result[0]
       let keys = result[1]
 
@@ -426,16 +5221,10 @@ export class KeyvUpstash<T = any>
         keys = keys.filter((key) => !key.includes(this.keyPrefixSeparator))
       }
 
-      if (keys.length > 0) {
-        const values = await this.client.mget(keys)
-        for (const [i] of keys.entries()) {
-          const key = getKeyWithoutPrefix(keys[i])
-
-          /* c8 ignore next 1 */
-          let value = values ? values[i] : undefined
+      keys = keys.filter((key) => !this.isInternalKey(key))
 
-          if (value != undefined) yield [key, value as U | undefined]
-        }
+      if (keys.length > 0) {
+        yield { keys, cursor }
       }
     } while (cursor !== "0")
   }
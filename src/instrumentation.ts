@@ -0,0 +1,344 @@
+/**
+ * Options for the metrics collected by the adapter.
+ *
+ * @typedef {Object} KeyvUpstashMetricsOptions
+ *
+ * @property {number[]} [latencyBuckets] - The upper bounds of the buckets of the latency histograms, in milliseconds,
+ * in ascending order. Defaults to 1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000 and 10000.
+ */
+export type KeyvUpstashMetricsOptions = {
+  latencyBuckets?: number[]
+}
+
+/**
+ * The payload of the `operation-start` event, emitted before an operation is executed.
+ *
+ * @typedef {Object} KeyvUpstashOperationStartEvent
+ *
+ * @property {string} operation - The name of the adapter method.
+ * @property {string} [namespace] - The namespace of the operation.
+ * @property {string[]} keys - The keys of the operation.
+ */
+export type KeyvUpstashOperationStartEvent = {
+  operation: string
+  namespace?: string
+  keys: string[]
+}
+
+/**
+ * The payload of the `operation-end` event, emitted once an operation has succeeded or failed.
+ *
+ * @typedef {Object} KeyvUpstashOperationEvent
+ *
+ * @property {number} startTime - When the operation started, in milliseconds since the epoch.
+ * @property {number} duration - How long the operation took, in milliseconds.
+ * @property {number} hits - The number of keys that were found.
+ * @property {number} misses - The number of keys that were not found.
+ * @property {number} bytesSent - The size of the values written, in bytes.
+ * @property {number} bytesReceived - The size of the values read, in bytes.
+ * @property {unknown} [error] - The error of the operation if it failed, even if it was not thrown because `failMode` is `open`.
+ */
+export type KeyvUpstashOperationEvent = KeyvUpstashOperationStartEvent & {
+  startTime: number
+  duration: number
+  hits: number
+  misses: number
+  bytesSent: number
+  bytesReceived: number
+  error?: unknown
+}
+
+/**
+ * A histogram of the latencies of an operation.
+ *
+ * @typedef {Object} KeyvUpstashLatencyHistogram
+ *
+ * @property {number[]} buckets - The upper bounds of the buckets, in milliseconds.
+ * @property {number[]} counts - The number of operations in each bucket, followed by the number of operations slower than the last bucket.
+ * @property {number} sum - The total duration of the operations, in milliseconds.
+ * @property {number} max - The duration of the slowest operation, in milliseconds.
+ */
+export type KeyvUpstashLatencyHistogram = {
+  buckets: number[]
+  counts: number[]
+  sum: number
+  max: number
+}
+
+/**
+ * The counters of an operation in a namespace.
+ *
+ * @typedef {Object} KeyvUpstashOperationStats
+ *
+ * @property {number} count - The number of times the operation was executed.
+ * @property {number} errors - The number of times the operation failed.
+ * @property {number} hits - The number of keys that were found.
+ * @property {number} misses - The number of keys that were not found.
+ * @property {number} hitRatio - The ratio of hits to the number of keys read, or 0 if no key was read.
+ * @property {number} bytesSent - The size of the values written, in bytes.
+ * @property {number} bytesReceived - The size of the values read, in bytes.
+ * @property {KeyvUpstashLatencyHistogram} latency - The histogram of the latencies of the operation.
+ */
+export type KeyvUpstashOperationStats = {
+  count: number
+  errors: number
+  hits: number
+  misses: number
+  hitRatio: number
+  bytesSent: number
+  bytesReceived: number
+  latency: KeyvUpstashLatencyHistogram
+}
+
+/**
+ * A snapshot of the metrics of the adapter: the counters of each operation by namespace.
+ * Operations without a namespace are listed under an empty string.
+ */
+export type KeyvUpstashStats = Record<
+  string,
+  Record<string, KeyvUpstashOperationStats>
+>
+
+/**
+ * The counters of the operation being executed, updated by the adapter as it reads and writes values.
+ */
+export type OperationMetrics = {
+  hits: number
+  misses: number
+  bytesSent: number
+  bytesReceived: number
+  error?: unknown
+}
+
+/**
+ * The attributes of a span.
+ */
+export type KeyvUpstashSpanAttributes = Record<
+  string,
+  string | number | boolean
+>
+
+/**
+ * The subset of an OpenTelemetry span used by `traceKeyvUpstash`.
+ */
+export type KeyvUpstashSpan = {
+  recordException(exception: Error | string): void
+  setStatus(status: { code: number; message?: string }): void
+  end(endTime?: number): void
+}
+
+/**
+ * The subset of an OpenTelemetry tracer used by `traceKeyvUpstash`, e.g. the one returned by
+ * `trace.getTracer("keyv-upstash")` from `@opentelemetry/api`.
+ */
+export type KeyvUpstashTracer = {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number
+      startTime?: number
+      attributes?: KeyvUpstashSpanAttributes
+    }
+  ): KeyvUpstashSpan
+}
+
+/**
+ * The kind of the spans, `SpanKind.CLIENT` in OpenTelemetry.
+ */
+const SPAN_KIND_CLIENT = 2
+
+/**
+ * The status of the spans of failed operations, `SpanStatusCode.ERROR` in OpenTelemetry.
+ */
+const SPAN_STATUS_ERROR = 2
+
+const DEFAULT_LATENCY_BUCKETS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000,
+]
+
+/**
+ * Resolves the metrics option passed to the constructor into a complete set of options.
+ *
+ * @param option - The metrics options.
+ * @returns The resolved options.
+ */
+export function resolveMetricsOptions(
+  option: KeyvUpstashMetricsOptions | undefined
+): Required<KeyvUpstashMetricsOptions> {
+  return {
+    latencyBuckets: option?.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS,
+  }
+}
+
+/**
+ * Creates the counters of an operation that has not read or written anything yet.
+ */
+export function createOperationMetrics(): OperationMetrics {
+  return { hits: 0, misses: 0, bytesSent: 0, bytesReceived: 0 }
+}
+
+/**
+ * Aggregates the `operation-end` events of an adapter into counters and latency histograms.
+ */
+export class KeyvUpstashMetrics {
+  /**
+   * The resolved metrics options.
+   */
+  readonly options: Required<KeyvUpstashMetricsOptions>
+
+  /**
+   * The counters of each operation by namespace.
+   */
+  private namespaces = new Map<string, Map<string, KeyvUpstashOperationStats>>()
+
+  /**
+   * Creates empty metrics.
+   *
+   * @param options - The resolved metrics options.
+   */
+  constructor(options: Required<KeyvUpstashMetricsOptions>) {
+    this.options = options
+  }
+
+  /**
+   * Adds an operation to the counters.
+   *
+   * @param event - The operation that ended.
+   */
+  record(event: KeyvUpstashOperationEvent): void {
+    const namespace = event.namespace ?? ""
+    let operations = this.namespaces.get(namespace)
+    if (!operations) {
+      operations = new Map()
+      this.namespaces.set(namespace, operations)
+    }
+
+    let stats = operations.get(event.operation)
+    if (!stats) {
+      const buckets = this.options.latencyBuckets
+      stats = {
+        count: 0,
+        errors: 0,
+        hits: 0,
+        misses: 0,
+        hitRatio: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
+        latency: {
+          buckets,
+          counts: Array.from({ length: buckets.length + 1 }, () => 0),
+          sum: 0,
+          max: 0,
+        },
+      }
+      operations.set(event.operation, stats)
+    }
+
+    stats.count++
+    if (event.error !== undefined) stats.errors++
+    stats.hits += event.hits
+    stats.misses += event.misses
+    stats.bytesSent += event.bytesSent
+    stats.bytesReceived += event.bytesReceived
+
+    const { latency } = stats
+    const bucket = latency.buckets.findIndex((bound) => event.duration <= bound)
+    latency.counts[bucket === -1 ? latency.buckets.length : bucket]++
+    latency.sum += event.duration
+    latency.max = Math.max(latency.max, event.duration)
+  }
+
+  /**
+   * Gets a snapshot of the counters.
+   *
+   * @returns The counters of each operation by namespace.
+   */
+  stats(): KeyvUpstashStats {
+    const snapshot: KeyvUpstashStats = {}
+    for (const [namespace, operations] of this.namespaces) {
+      snapshot[namespace] = {}
+      for (const [operation, stats] of operations) {
+        const reads = stats.hits + stats.misses
+        snapshot[namespace][operation] = {
+          ...stats,
+          hitRatio: reads === 0 ? 0 : stats.hits / reads,
+          latency: { ...stats.latency, counts: [...stats.latency.counts] },
+        }
+      }
+    }
+
+    return snapshot
+  }
+
+  /**
+   * Resets all the counters.
+   */
+  reset(): void {
+    this.namespaces = new Map()
+  }
+}
+
+/**
+ * Creates an OpenTelemetry span for every operation of an adapter, without depending on a tracing SDK:
+ * any tracer with a compatible `startSpan` method can be used.
+ *
+ * The spans are named after the operation (e.g. `keyv-upstash get`) and have the namespace, the number of keys,
+ * hits and misses and the size of the values read and written as attributes. Failed operations are recorded
+ * as exceptions and have an error status.
+ *
+ * @param store - The adapter to trace.
+ * @param tracer - The tracer used to create the spans.
+ * @returns A function that stops tracing the adapter.
+ */
+export function traceKeyvUpstash(
+  store: {
+    on(
+      event: "operation-end",
+      listener: (event: KeyvUpstashOperationEvent) => void
+    ): unknown
+    off(
+      event: "operation-end",
+      listener: (event: KeyvUpstashOperationEvent) => void
+    ): unknown
+  },
+  tracer: KeyvUpstashTracer
+): () => void {
+  const listener = (event: KeyvUpstashOperationEvent) => {
+    const attributes: KeyvUpstashSpanAttributes = {
+      "db.system": "redis",
+      "db.operation.name": event.operation,
+      "keyv.key_count": event.keys.length,
+      "keyv.hits": event.hits,
+      "keyv.misses": event.misses,
+      "keyv.bytes_sent": event.bytesSent,
+      "keyv.bytes_received": event.bytesReceived,
+    }
+    if (event.namespace) {
+      attributes["keyv.namespace"] = event.namespace
+    }
+
+    const span = tracer.startSpan(`keyv-upstash ${event.operation}`, {
+      kind: SPAN_KIND_CLIENT,
+      startTime: event.startTime,
+      attributes,
+    })
+
+    if (event.error !== undefined) {
+      const error =
+        event.error instanceof Error ? event.error : String(event.error)
+      span.recordException(error)
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : error,
+      })
+    }
+
+    span.end(event.startTime + event.duration)
+  }
+
+  store.on("operation-end", listener)
+
+  return () => {
+    store.off("operation-end", listener)
+  }
+}
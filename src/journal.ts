@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto"
+
+/**
+ * Options for the change journal.
+ *
+ * @typedef {Object} KeyvUpstashJournalOptions
+ *
+ * @property {number} [maxLength=10000] - About how many changes are kept in the journal of each namespace.
+ * Older changes are trimmed as new ones are appended.
+ * @property {number} [pollInterval=1000] - How long `changes()` waits before reading the journal again once it has
+ * read every change, in milliseconds.
+ * @property {string} [source] - The name of the instance in the changes it makes, so that consumers can tell them
+ * apart from the changes made by other instances. Defaults to a random UUID.
+ */
+export type KeyvUpstashJournalOptions = {
+  maxLength?: number
+  pollInterval?: number
+  source?: string
+}
+
+/**
+ * What a change did: `set` wrote the keys, `delete` deleted them and `clear` cleared the namespace.
+ */
+export type KeyvUpstashChangeType = "set" | "delete" | "clear"
+
+/**
+ * A change read from the journal.
+ *
+ * @typedef {Object} KeyvUpstashChangeEvent
+ *
+ * @property {string} id - The id of the change in the stream, to resume reading after it with the `since` option.
+ * @property {KeyvUpstashChangeType} type - What the change did.
+ * @property {string[]} keys - The keys that were written or deleted, without the namespace prefix. Empty for `clear`.
+ * @property {string} source - The `source` of the instance that made the change.
+ */
+export type KeyvUpstashChangeEvent = {
+  id: string
+  type: KeyvUpstashChangeType
+  keys: string[]
+  source: string
+}
+
+/**
+ * Options for `changes()`.
+ *
+ * @typedef {Object} KeyvUpstashChangesOptions
+ *
+ * @property {string} [since] - The id of the change to read after, or `0` to read every change still in the journal.
+ * Defaults to the last change when `changes()` starts reading, so that only new changes are read.
+ * @property {number} [count=100] - The maximum number of changes to read per request.
+ * @property {number} [pollInterval] - How long to wait before reading again once every change has been read,
+ * in milliseconds. Defaults to the `pollInterval` of the journal.
+ * @property {AbortSignal} [signal] - A signal to stop reading the changes.
+ */
+export type KeyvUpstashChangesOptions = {
+  since?: string
+  count?: number
+  pollInterval?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Resolves the journal option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the journal options.
+ * @returns The resolved options, or `undefined` if the journal is disabled.
+ */
+export function resolveJournalOptions(
+  option: boolean | KeyvUpstashJournalOptions | undefined
+): Required<KeyvUpstashJournalOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    maxLength: options.maxLength ?? 10_000,
+    pollInterval: options.pollInterval ?? 1000,
+    source: options.source ?? randomUUID(),
+  }
+}
+
+/**
+ * Serializes a change into the fields of a stream entry.
+ *
+ * @param type - What the change did.
+ * @param keys - The keys of the change, without the namespace prefix.
+ * @param source - The `source` of the instance that made the change.
+ * @returns The fields of the entry.
+ */
+export function toJournalEntry(
+  type: KeyvUpstashChangeType,
+  keys: string[],
+  source: string
+): Record<string, string> {
+  return { type, keys: JSON.stringify(keys), source }
+}
+
+/**
+ * Parses the stream entries returned by `XRANGE`, `XREVRANGE` or for a stream of `XREAD`, as returned by the
+ * REST API without automatic deserialization: an array of ids with an array of fields and values.
+ *
+ * @param entries - The raw stream entries.
+ * @returns The changes, in the order of the entries.
+ */
+export function parseJournalEntries(
+  entries: unknown
+): KeyvUpstashChangeEvent[] {
+  return ((entries ?? []) as Array<[string, string[]]>).map(([id, fields]) => {
+    const entry: Record<string, string> = {}
+    for (let i = 0; i < fields.length; i += 2) {
+      entry[fields[i]] = String(fields[i + 1])
+    }
+
+    return {
+      id: String(id),
+      type: entry.type as KeyvUpstashChangeType,
+      keys: JSON.parse(entry.keys ?? "[]") as string[],
+      source: entry.source ?? "",
+    }
+  })
+}
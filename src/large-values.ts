@@ -0,0 +1,180 @@
+import { getSize } from "./memory-cache"
+
+/**
+ * Options for splitting large values across several keys.
+ *
+ * @typedef {Object} KeyvUpstashLargeValuesOptions
+ *
+ * @property {number} [threshold=900000] - The size in bytes above which an encoded value is split into parts.
+ * @property {number} [partSize] - The maximum size of a part in bytes. Defaults to the threshold.
+ */
+export type KeyvUpstashLargeValuesOptions = {
+  threshold?: number
+  partSize?: number
+}
+
+/**
+ * Where the parts of a large value are stored, as read from the manifest stored under its key.
+ */
+export type LargeValueManifest = {
+  /**
+   * The number of parts.
+   */
+  parts: number
+  /**
+   * The length of the value once its parts are joined, to check that none of them has been replaced.
+   */
+  length: number
+  /**
+   * The prefix of the keys of the parts, followed by the index of the part.
+   */
+  base: string
+}
+
+/**
+ * Prefix of the manifest of a large value, followed by the number of parts, the length of the value and the prefix
+ * of the keys of the parts, separated by colons. The manifest is wrapped with the metadata of the value, if any.
+ */
+const MANIFEST_PREFIX = "\u0000kvl:"
+
+/**
+ * TTL in milliseconds of the parts of a large value until its manifest is written, after which they get the TTL of
+ * the value, so that the parts of a write that failed midway do not outlive it if they cannot be deleted.
+ */
+export const PENDING_PART_TTL = 600_000
+
+/**
+ * Lua script that reads the manifests of keys without reading the values that are not split into parts.
+ * Returns the manifest of each key, without its metadata, or nil if the key does not exist or is not split.
+ */
+export const GET_MANIFESTS_SCRIPT = `
+local manifests = {}
+for i, key in ipairs(KEYS) do
+  local value = redis.call("GET", key)
+  local manifest = false
+  if value then
+    local start = 1
+    if string.sub(value, 1, 5) == "\\0kvm:" then
+      start = (string.find(value, "\\n", 1, true) or #value) + 1
+    end
+    if string.sub(value, start, start + 4) == "\\0kvl:" then
+      manifest = string.sub(value, start)
+    end
+  end
+  manifests[i] = manifest
+end
+return manifests
+`
+
+/**
+ * Resolves the large values option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the large values options.
+ * @returns The resolved options, or `undefined` if large values are not split.
+ */
+export function resolveLargeValuesOptions(
+  option: boolean | KeyvUpstashLargeValuesOptions | undefined
+): Required<KeyvUpstashLargeValuesOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+  const threshold = options.threshold ?? 900_000
+
+  return {
+    threshold,
+    partSize: options.partSize ?? threshold,
+  }
+}
+
+/**
+ * Checks if an encoded value is larger than the threshold and must be split into parts.
+ *
+ * @param value - The encoded value, without its metadata.
+ * @param options - The resolved large values options.
+ */
+export function isLargeValue(
+  value: unknown,
+  { threshold }: Required<KeyvUpstashLargeValuesOptions>
+): boolean {
+  return getSize(value) > threshold
+}
+
+/**
+ * Splits a value into parts of at most `partSize` bytes, without splitting a character.
+ *
+ * @param value - The value to split.
+ * @param partSize - The maximum size of a part in bytes.
+ * @returns The parts, in order.
+ */
+export function splitValue(value: string, partSize: number): string[] {
+  const parts: string[] = []
+  let start = 0
+  let bytes = 0
+
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    // The 4 bytes of a surrogate pair are counted on its first half, so that it is never split.
+    let size = 3
+    if (code < 0x80) {
+      size = 1
+    } else if (code < 0x800) {
+      size = 2
+    } else if (code >= 0xd800 && code < 0xdc00) {
+      size = 4
+    } else if (code >= 0xdc00 && code < 0xe000) {
+      size = 0
+    }
+
+    if (size > 0 && i > start && bytes + size > partSize) {
+      parts.push(value.slice(start, i))
+      start = i
+      bytes = 0
+    }
+    bytes += size
+  }
+  parts.push(value.slice(start))
+
+  return parts
+}
+
+/**
+ * Serializes the manifest of a large value.
+ *
+ * @param manifest - The manifest.
+ * @returns The manifest to store under the key of the value.
+ */
+export function toManifest({
+  parts,
+  length,
+  base,
+}: LargeValueManifest): string {
+  return `${MANIFEST_PREFIX}${parts}:${length}:${base}`
+}
+
+/**
+ * Parses the manifest of a large value.
+ *
+ * @param value - A value read from Upstash Redis, without its metadata.
+ * @returns The manifest, or `undefined` if the value is not a manifest.
+ */
+export function parseManifest(value: unknown): LargeValueManifest | undefined {
+  if (typeof value !== "string" || !value.startsWith(MANIFEST_PREFIX)) {
+    return undefined
+  }
+
+  const [, parts, length, base] =
+    /^(\d+):(\d+):(.*)$/s.exec(value.slice(MANIFEST_PREFIX.length)) ?? []
+  if (base === undefined) return undefined
+
+  return { parts: Number(parts), length: Number(length), base }
+}
+
+/**
+ * Gets the keys of the parts of a large value.
+ *
+ * @param manifest - The manifest of the value.
+ * @returns The keys of the parts, in order.
+ */
+export function getPartKeys({ parts, base }: LargeValueManifest): string[] {
+  return Array.from({ length: parts }, (_, i) => `${base}${i}`)
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto"
+import { Redis } from "@upstash/redis"
+
+/**
+ * Options for acquiring a lock.
+ *
+ * @typedef {Object} KeyvUpstashLockOptions
+ *
+ * @property {number} [ttl=10000] - The time to live of the lock in milliseconds, after which it is released automatically.
+ * @property {number} [retry=0] - How many more times to try to acquire the lock if it is held by someone else.
+ * @property {number} [retryDelay=100] - How long to wait between attempts, in milliseconds.
+ * @property {AbortSignal} [signal] - A signal to stop trying to acquire the lock.
+ */
+export type KeyvUpstashLockOptions = {
+  ttl?: number
+  retry?: number
+  retryDelay?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Lua script that deletes a lock only if it is still held by the given owner.
+ * KEYS[1] is the lock key, ARGV[1] is the owner token. Returns 1 if the lock was released.
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`
+
+/**
+ * Lua script that resets the TTL of a lock only if it is still held by the given owner.
+ * KEYS[1] is the lock key, ARGV[1] is the owner token and ARGV[2] the new TTL in milliseconds.
+ * Returns 1 if the lock was extended.
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`
+
+/**
+ * A lock held on a key. The owner token is checked by Lua scripts, so a lock can only be released or extended by
+ * the handle that acquired it, even after it expired and was acquired by someone else.
+ */
+export class KeyvUpstashLock {
+  /**
+   * The Upstash Redis client instance.
+   */
+  readonly client: Redis
+
+  /**
+   * The prefixed key of the lock.
+   */
+  readonly key: string
+
+  /**
+   * The token identifying the owner of the lock.
+   */
+  readonly token: string
+
+  /**
+   * The time to live of the lock in milliseconds.
+   */
+  readonly ttl: number
+
+  /**
+   * Creates a handle for a lock that has been acquired. Use `KeyvUpstash.lock()` to acquire a lock.
+   *
+   * @param client - The Upstash Redis client instance.
+   * @param key - The prefixed key of the lock.
+   * @param token - The token identifying the owner of the lock.
+   * @param ttl - The time to live of the lock in milliseconds.
+   */
+  constructor(client: Redis, key: string, token: string, ttl: number) {
+    this.client = client
+    this.key = key
+    this.token = token
+    this.ttl = ttl
+  }
+
+  /**
+   * Tries to acquire a lock once.
+   *
+   * @param client - The Upstash Redis client instance.
+   * @param key - The prefixed key of the lock.
+   * @param ttl - The time to live of the lock in milliseconds.
+   * @returns The lock, or undefined if it is held by someone else.
+   */
+  static async tryAcquire(
+    client: Redis,
+    key: string,
+    ttl: number
+  ): Promise<KeyvUpstashLock | undefined> {
+    const token = randomUUID()
+    const result = await client.set(key, token, { nx: true, px: ttl })
+
+    return result === null
+      ? undefined
+      : new KeyvUpstashLock(client, key, token, ttl)
+  }
+
+  /**
+   * Releases the lock if it is still held by this handle.
+   *
+   * @returns {Promise<boolean>} - true if the lock was released, false if it had expired or was held by someone else
+   */
+  async release(): Promise<boolean> {
+    const released = await this.client.eval<string[], number>(
+      RELEASE_LOCK_SCRIPT,
+      [this.key],
+      [this.token]
+    )
+
+    return released === 1
+  }
+
+  /**
+   * Resets the time to live of the lock if it is still held by this handle.
+   *
+   * @param {number} [ttl] - the new time to live in milliseconds. Defaults to the ttl the lock was acquired with.
+   * @returns {Promise<boolean>} - true if the lock was extended, false if it had expired or was held by someone else
+   */
+  async extend(ttl: number = this.ttl): Promise<boolean> {
+    const extended = await this.client.eval<string[], number>(
+      EXTEND_LOCK_SCRIPT,
+      [this.key],
+      [this.token, String(ttl)]
+    )
+
+    return extended === 1
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Options for the in-memory cache kept in front of Upstash Redis.
+ *
+ * @typedef {Object} KeyvUpstashMemoryCacheOptions
+ *
+ * @property {number} [maxEntries=1000] - The maximum number of values kept in memory.
+ * @property {number} [maxBytes=Infinity] - The maximum total size of the values kept in memory, in bytes.
+ * @property {number} [ttl=1000] - For how long values are kept in memory, in milliseconds. It is capped by their TTL in Upstash Redis.
+ */
+export type KeyvUpstashMemoryCacheOptions = {
+  maxEntries?: number
+  maxBytes?: number
+  ttl?: number
+}
+
+/**
+ * A snapshot of the counters of the in-memory cache.
+ *
+ * @typedef {Object} KeyvUpstashMemoryCacheStats
+ *
+ * @property {number} hits - The number of reads served from memory.
+ * @property {number} misses - The number of reads that had to go to Upstash Redis.
+ * @property {number} entries - The number of values currently kept in memory.
+ * @property {number} bytes - The total size of the values currently kept in memory, in bytes.
+ */
+export type KeyvUpstashMemoryCacheStats = {
+  hits: number
+  misses: number
+  entries: number
+  bytes: number
+}
+
+type MemoryCacheEntry = {
+  value: unknown
+  size: number
+  expiresAt: number
+}
+
+/**
+ * Resolves the memory cache option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the memory cache options.
+ * @returns The resolved options, or `undefined` if the memory cache is disabled.
+ */
+export function resolveMemoryCacheOptions(
+  option: boolean | KeyvUpstashMemoryCacheOptions | undefined
+): Required<KeyvUpstashMemoryCacheOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    maxEntries: options.maxEntries ?? 1000,
+    maxBytes: options.maxBytes ?? Infinity,
+    ttl: options.ttl ?? 1000,
+  }
+}
+
+/**
+ * Computes the size of a raw value in bytes.
+ * Values that are not strings are measured the way the Upstash client serializes them.
+ *
+ * @param value - The raw value.
+ */
+export function getSize(value: unknown): number {
+  return Buffer.byteLength(
+    typeof value === "string" ? value : (JSON.stringify(value) ?? "")
+  )
+}
+
+/**
+ * A least recently used cache of raw values read from Upstash Redis, kept in the memory of the process.
+ */
+export class KeyvUpstashMemoryCache {
+  /**
+   * The resolved memory cache options.
+   */
+  readonly options: Required<KeyvUpstashMemoryCacheOptions>
+
+  /**
+   * The number of reads served from memory.
+   */
+  hits = 0
+
+  /**
+   * The number of reads that had to go to Upstash Redis.
+   */
+  misses = 0
+
+  /**
+   * The cached entries by prefixed key, from the least to the most recently used.
+   */
+  private readonly entries = new Map<string, MemoryCacheEntry>()
+
+  /**
+   * The total size of the cached values in bytes.
+   */
+  private bytes = 0
+
+  /**
+   * Creates an in-memory cache.
+   *
+   * @param options - The resolved memory cache options.
+   */
+  constructor(options: Required<KeyvUpstashMemoryCacheOptions>) {
+    this.options = options
+  }
+
+  /**
+   * Gets a value from memory, counting a hit or a miss.
+   *
+   * @param key - The prefixed key.
+   * @returns The raw value, or undefined if it is not cached or has expired.
+   */
+  get(key: string): unknown {
+    const entry = this.entries.get(key)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.delete(key)
+      this.misses++
+      return undefined
+    }
+
+    // Move the entry to the end of the map, which holds the most recently used entries.
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.hits++
+
+    return entry.value
+  }
+
+  /**
+   * Checks if a value is in memory without counting a hit or a miss.
+   *
+   * @param key - The prefixed key.
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key)
+
+    return entry !== undefined && entry.expiresAt > Date.now()
+  }
+
+  /**
+   * Keeps a value in memory, evicting the least recently used values if the cache is full.
+   * Values larger than `maxBytes` are not cached.
+   *
+   * @param key - The prefixed key.
+   * @param value - The raw value.
+   * @param ttl - The remaining TTL of the value in Upstash Redis in milliseconds, or undefined if it does not expire.
+   */
+  set(key: string, value: unknown, ttl?: number): void {
+    this.delete(key)
+
+    const size = getSize(value)
+    const memoryTtl = Math.min(this.options.ttl, ttl ?? Infinity)
+    if (size > this.options.maxBytes || memoryTtl <= 0) return
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + memoryTtl })
+    this.bytes += size
+
+    for (const oldestKey of this.entries.keys()) {
+      if (
+        this.entries.size <= this.options.maxEntries &&
+        this.bytes <= this.options.maxBytes
+      ) {
+        break
+      }
+
+      this.delete(oldestKey)
+    }
+  }
+
+  /**
+   * Removes values from memory.
+   *
+   * @param keys - The prefixed keys.
+   */
+  delete(...keys: string[]): void {
+    for (const key of keys) {
+      const entry = this.entries.get(key)
+      if (entry) {
+        this.entries.delete(key)
+        this.bytes -= entry.size
+      }
+    }
+  }
+
+  /**
+   * Removes all the values from memory. The counters are kept.
+   */
+  clear(): void {
+    this.entries.clear()
+    this.bytes = 0
+  }
+
+  /**
+   * Gets a snapshot of the counters of the cache.
+   *
+   * @returns The number of hits and misses, and the number and size of the cached values.
+   */
+  stats(): KeyvUpstashMemoryCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      bytes: this.bytes,
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Metadata stored alongside a value.
+ *
+ * @typedef {Object} KeyvUpstashValueMetadata
+ *
+ * @property {number} [staleAt] - The time after which the value is stale, in milliseconds since the epoch.
+ * @property {number} [loadDuration] - How long it took to load the value, in milliseconds.
+ * @property {number} [ttl] - The TTL the value was set with, in milliseconds, restored on every read with `slidingExpiration`.
+ * @property {number} [version] - The version of the value, incremented by every `setIfVersion`. Values without a version are at version 1.
+ */
+export type KeyvUpstashValueMetadata = {
+  staleAt?: number
+  loadDuration?: number
+  ttl?: number
+  version?: number
+}
+
+/**
+ * Prefix of every value stored with metadata, followed by the metadata as JSON, a new line and the value.
+ * The metadata is the outermost layer of a value and is never compressed or encrypted.
+ */
+const METADATA_PREFIX = "\u0000kvm:"
+
+/**
+ * Wraps a value with its metadata.
+ * Values that are not strings are serialized the same way the Upstash client serializes them.
+ *
+ * @param value - The (encoded) value to wrap.
+ * @param metadata - The metadata to store with the value.
+ * @returns The value prefixed with the metadata.
+ */
+export function wrapValue(
+  value: any,
+  metadata: KeyvUpstashValueMetadata
+): string {
+  const serialized = typeof value === "string" ? value : JSON.stringify(value)
+
+  return `${METADATA_PREFIX}${JSON.stringify(metadata)}\n${serialized}`
+}
+
+/**
+ * Separates a value read from Upstash Redis from its metadata. Values without metadata are returned as is.
+ *
+ * @param value - The raw value read from Upstash Redis.
+ * @returns The value and its metadata, if any.
+ */
+export function unwrapValue(value: unknown): {
+  value: unknown
+  metadata?: KeyvUpstashValueMetadata
+} {
+  if (typeof value !== "string" || !value.startsWith(METADATA_PREFIX)) {
+    return { value }
+  }
+
+  const newLineIndex = value.indexOf("\n")
+
+  return {
+    value: value.slice(newLineIndex + 1),
+    metadata: JSON.parse(value.slice(METADATA_PREFIX.length, newLineIndex)),
+  }
+}
+
+/**
+ * Checks if a value is stale according to its metadata.
+ *
+ * @param metadata - The metadata of the value.
+ * @param now - The current time in milliseconds since the epoch.
+ */
+export function isStale(
+  metadata: KeyvUpstashValueMetadata | undefined,
+  now = Date.now()
+): boolean {
+  return metadata?.staleAt !== undefined && now >= metadata.staleAt
+}
+
+/**
+ * Decides whether a value should be refreshed before it gets stale, using the XFetch algorithm
+ * (optimal probabilistic cache stampede prevention): the closer a value is to being stale and the longer it takes
+ * to load, the more likely it is to be refreshed early.
+ *
+ * @param metadata - The metadata of the value.
+ * @param beta - Values greater than 1 favor earlier refreshes, values smaller than 1 favor later ones.
+ */
+export function shouldRefreshEarly(
+  metadata: KeyvUpstashValueMetadata | undefined,
+  beta: number
+): boolean {
+  if (metadata?.staleAt === undefined || !metadata.loadDuration || beta <= 0) {
+    return false
+  }
+
+  return (
+    Date.now() - metadata.loadDuration * beta * Math.log(Math.random()) >=
+    metadata.staleAt
+  )
+}
@@ -0,0 +1,226 @@
+/**
+ * The algorithm of a rate limit:
+ * - `fixed-window` counts the requests in windows that start with the first request, and resets the count when
+ *   the window ends. Bursts of up to twice the limit can be allowed around the end of a window.
+ * - `sliding-window` keeps the time of every request of the last window, so that no more than `limit` requests
+ *   are allowed in any window. It uses memory proportional to the limit.
+ * - `token-bucket` refills a bucket of `limit` tokens at a rate of `limit` tokens per window, and takes a token
+ *   for every request, allowing bursts of up to `limit` requests after a quiet period.
+ */
+export type KeyvUpstashRateLimitAlgorithm =
+  "fixed-window" | "sliding-window" | "token-bucket"
+
+/**
+ * A rate limit.
+ *
+ * @typedef {Object} KeyvUpstashRateLimit
+ *
+ * @property {KeyvUpstashRateLimitAlgorithm} [algorithm="sliding-window"] - The algorithm of the limit.
+ * @property {number} limit - How many requests are allowed per window, or the size of the bucket.
+ * @property {number} window - The duration of the window in milliseconds, or how long it takes to refill the bucket.
+ * @property {string} [name] - The name of the limit, used in its key. Defaults to its algorithm, limit and window,
+ * so changing them starts counting from scratch.
+ */
+export type KeyvUpstashRateLimit = {
+  algorithm?: KeyvUpstashRateLimitAlgorithm
+  limit: number
+  window: number
+  name?: string
+}
+
+/**
+ * Options for `rateLimit`.
+ *
+ * @typedef {Object} KeyvUpstashRateLimitOptions
+ *
+ * @property {number} [cost=1] - How many requests the request counts as.
+ */
+export type KeyvUpstashRateLimitOptions = {
+  cost?: number
+}
+
+/**
+ * The state of a rate limit after a request.
+ *
+ * @typedef {Object} KeyvUpstashRateLimitState
+ *
+ * @property {string} name - The name of the limit.
+ * @property {boolean} allowed - Whether the limit allowed the request.
+ * @property {number} remaining - How many more requests the limit allows right now.
+ * @property {number} resetAt - If the limit denied the request, when it would allow it, otherwise when all of its
+ * requests are available again, in milliseconds since the epoch.
+ */
+export type KeyvUpstashRateLimitState = {
+  name: string
+  allowed: boolean
+  remaining: number
+  resetAt: number
+}
+
+/**
+ * The result of `rateLimit`.
+ *
+ * @typedef {Object} KeyvUpstashRateLimitResult
+ *
+ * @property {boolean} allowed - Whether every limit allowed the request. Otherwise, no limit counted it.
+ * @property {number} remaining - How many more requests are allowed right now by the most restrictive limit.
+ * @property {number} resetAt - If the request was denied, when it can be retried, otherwise when every limit is
+ * available again, in milliseconds since the epoch.
+ * @property {KeyvUpstashRateLimitState[]} limits - The state of each limit, in the order they were given.
+ */
+export type KeyvUpstashRateLimitResult = {
+  allowed: boolean
+  remaining: number
+  resetAt: number
+  limits: KeyvUpstashRateLimitState[]
+}
+
+/**
+ * Lua script that checks the rate limits of an identifier and counts the request in all of them only if they
+ * all allow it. KEYS are the keys of the limits. ARGV[1] is the current time, ARGV[2] the cost of the request and
+ * ARGV[3] a unique id of the request, followed by the algorithm, limit and window of each limit.
+ * Returns whether the request was allowed, followed by whether each limit allowed it, the requests it has left
+ * and when it resets.
+ */
+export const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local states = {}
+local allowed = 1
+
+for i, key in ipairs(KEYS) do
+  local algorithm = ARGV[3 * i + 1]
+  local limit = tonumber(ARGV[3 * i + 2])
+  local window = tonumber(ARGV[3 * i + 3])
+  local state = { algorithm = algorithm, limit = limit, window = window }
+
+  if algorithm == "fixed-window" then
+    local ttl = redis.call("PTTL", key)
+    state.used = ttl > 0 and tonumber(redis.call("GET", key) or "0") or 0
+    state.ttl = ttl
+    state.resetAt = now + (ttl > 0 and ttl or window)
+  elseif algorithm == "sliding-window" then
+    redis.call("ZREMRANGEBYSCORE", key, "-inf", now - window)
+    state.used = redis.call("ZCARD", key)
+    -- The request is allowed once enough of the oldest requests are out of the window.
+    local excess = state.used + cost - limit
+    state.resetAt = now + window
+    if excess > 0 and excess <= state.used then
+      local oldest = redis.call("ZRANGE", key, excess - 1, excess - 1, "WITHSCORES")
+      state.resetAt = tonumber(oldest[2]) + window
+    end
+  else
+    local bucket = redis.call("HMGET", key, "tokens", "updatedAt")
+    local tokens = tonumber(bucket[1]) or limit
+    local updatedAt = tonumber(bucket[2]) or now
+    tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * limit / window)
+    state.used = limit - tokens
+    state.tokens = tokens
+  end
+
+  state.allowed = state.used + cost <= limit
+  if not state.allowed then
+    allowed = 0
+  end
+  states[i] = state
+end
+
+local result = { allowed }
+for i, key in ipairs(KEYS) do
+  local state = states[i]
+  local used = state.used
+  if allowed == 1 then
+    used = used + cost
+    if state.algorithm == "fixed-window" then
+      if state.ttl > 0 then
+        redis.call("INCRBY", key, cost)
+      else
+        redis.call("SET", key, cost, "PX", state.window)
+      end
+    elseif state.algorithm == "sliding-window" then
+      for j = 1, cost do
+        redis.call("ZADD", key, now, ARGV[3] .. ":" .. j)
+      end
+      redis.call("PEXPIRE", key, state.window)
+    end
+  end
+
+  if state.algorithm == "token-bucket" then
+    local tokens = state.limit - used
+    local missing = state.allowed and (state.limit - tokens) or (cost - tokens)
+    state.resetAt = now + math.ceil(math.max(missing, 0) * state.window / state.limit)
+    if allowed == 1 then
+      redis.call("HSET", key, "tokens", tostring(tokens), "updatedAt", now)
+      redis.call("PEXPIRE", key, math.max(state.resetAt - now, 1))
+    end
+  end
+
+  table.insert(result, state.allowed and 1 or 0)
+  table.insert(result, math.max(math.floor(state.limit - used), 0))
+  table.insert(result, math.ceil(state.resetAt))
+end
+
+return result
+`
+
+/**
+ * Resolves the rate limits passed to `rateLimit`, with their default algorithm and name.
+ *
+ * @param limits - The rate limits.
+ * @returns The resolved rate limits.
+ * @throws {Error} Throws an error if there are no limits, or if a limit or window is not a positive integer.
+ */
+export function resolveRateLimits(
+  limits: KeyvUpstashRateLimit | KeyvUpstashRateLimit[]
+): Array<Required<KeyvUpstashRateLimit>> {
+  const resolved = (Array.isArray(limits) ? limits : [limits]).map(
+    ({ algorithm = "sliding-window", limit, window, name }) => {
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("The limit of a rate limit must be a positive integer")
+      }
+      if (!Number.isInteger(window) || window <= 0) {
+        throw new Error("The window of a rate limit must be a positive integer")
+      }
+
+      return {
+        algorithm,
+        limit,
+        window,
+        name: name ?? `${algorithm}-${limit}-${window}`,
+      }
+    }
+  )
+  if (resolved.length === 0) {
+    throw new Error("At least one rate limit is required")
+  }
+
+  return resolved
+}
+
+/**
+ * Parses the result of the rate limit script.
+ *
+ * @param limits - The resolved rate limits.
+ * @param result - The result of the script.
+ * @returns The result of the request.
+ */
+export function toRateLimitResult(
+  limits: Array<Required<KeyvUpstashRateLimit>>,
+  result: number[]
+): KeyvUpstashRateLimitResult {
+  const states = limits.map(({ name }, i) => ({
+    name,
+    allowed: result[3 * i + 1] === 1,
+    remaining: result[3 * i + 2],
+    resetAt: result[3 * i + 3],
+  }))
+  const allowed = result[0] === 1
+  const blocking = allowed ? states : states.filter((state) => !state.allowed)
+
+  return {
+    allowed,
+    remaining: Math.min(...states.map(({ remaining }) => remaining)),
+    resetAt: Math.max(...blocking.map(({ resetAt }) => resetAt)),
+    limits: states,
+  }
+}
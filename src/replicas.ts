@@ -0,0 +1,142 @@
+import { Redis, RedisConfigNodejs } from "@upstash/redis"
+import { KeyvUpstashCircuitBreaker } from "./resilience"
+
+/**
+ * A read replica: an Upstash Redis instance, or the REST API URL and token of a read region of an Upstash Global database.
+ */
+export type KeyvUpstashReadReplica =
+  Redis | Pick<RedisConfigNodejs, "url" | "token">
+
+/**
+ * Options for routing reads to read replicas.
+ *
+ * @typedef {Object} KeyvUpstashReadReplicasOptions
+ *
+ * @property {KeyvUpstashReadReplica[]} replicas - The read replicas in order of preference, e.g. the nearest first.
+ * @property {number} [readYourWrites=0] - For how long reads go to the primary after a write through the adapter, in milliseconds,
+ * so they see the write even if it has not reached the replicas yet. Disabled with 0.
+ * @property {number} [cooldown=10000] - For how long a replica that failed is not used, in milliseconds.
+ */
+export type KeyvUpstashReadReplicasOptions = {
+  replicas: KeyvUpstashReadReplica[]
+  readYourWrites?: number
+  cooldown?: number
+}
+
+/**
+ * The payload of the `replica-error` event, emitted when a read replica fails and the read is sent to the primary instead.
+ *
+ * @typedef {Object} KeyvUpstashReplicaErrorEvent
+ *
+ * @property {number} replica - The index of the replica in the `replicas` option.
+ * @property {unknown} error - The error of the replica.
+ */
+export type KeyvUpstashReplicaErrorEvent = {
+  replica: number
+  error: unknown
+}
+
+/**
+ * A read replica client and the circuit breaker that tracks its health.
+ */
+type ReplicaClient = {
+  client: Redis
+  breaker: KeyvUpstashCircuitBreaker
+}
+
+/**
+ * Resolves the read replicas option passed to the constructor into a complete set of options.
+ *
+ * @param option - The read replicas options.
+ * @param createClient - Creates a client from the URL and token of a replica.
+ * @returns The resolved options with a client for every replica, or `undefined` if there are no replicas.
+ */
+export function resolveReadReplicasOptions(
+  option: KeyvUpstashReadReplicasOptions | undefined,
+  createClient: (config: Pick<RedisConfigNodejs, "url" | "token">) => Redis
+): Required<KeyvUpstashReadReplicasOptions> | undefined {
+  if (!option?.replicas.length) return undefined
+
+  return {
+    replicas: option.replicas.map((replica) =>
+      replica instanceof Redis ? replica : createClient(replica)
+    ),
+    readYourWrites: option.readYourWrites ?? 0,
+    cooldown: option.cooldown ?? 10_000,
+  }
+}
+
+/**
+ * Routes reads to the first healthy read replica, or to the primary for a while after a write.
+ * A replica that fails is skipped for the cooldown, after which a single read is sent to it to check if it has recovered.
+ */
+export class KeyvUpstashReadRouter {
+  /**
+   * The resolved read replicas options.
+   */
+  readonly options: Required<KeyvUpstashReadReplicasOptions>
+
+  /**
+   * The replica clients, in order of preference.
+   */
+  private readonly replicas: ReplicaClient[]
+
+  /**
+   * Until when reads go to the primary, in milliseconds since the epoch.
+   */
+  private pinnedUntil = 0
+
+  /**
+   * Creates a router.
+   *
+   * @param options - The resolved read replicas options, where every replica is a client.
+   */
+  constructor(options: Required<KeyvUpstashReadReplicasOptions>) {
+    this.options = options
+    this.replicas = options.replicas.map((client) => ({
+      client: client as Redis,
+      breaker: new KeyvUpstashCircuitBreaker({
+        failureThreshold: 1,
+        cooldown: options.cooldown,
+      }),
+    }))
+  }
+
+  /**
+   * Picks the replica to send a read to.
+   *
+   * @returns The index and client of the first healthy replica, or `undefined` if the read must go to the primary.
+   */
+  pick(): { replica: number; client: Redis } | undefined {
+    if (Date.now() < this.pinnedUntil) return undefined
+
+    const replica = this.replicas.findIndex(({ breaker }) => breaker.tryPass())
+    if (replica === -1) return undefined
+
+    return { replica, client: this.replicas[replica].client }
+  }
+
+  /**
+   * Records the outcome of a read sent to a replica.
+   *
+   * @param replica - The index of the replica.
+   * @param ok - Whether the read succeeded.
+   */
+  record(replica: number, ok: boolean): void {
+    const { breaker } = this.replicas[replica]
+    if (ok) {
+      breaker.recordSuccess()
+    } else {
+      breaker.recordFailure()
+    }
+  }
+
+  /**
+   * Records a write, pinning reads to the primary for `readYourWrites`.
+   */
+  recordWrite(): void {
+    if (this.options.readYourWrites > 0) {
+      this.pinnedUntil = Date.now() + this.options.readYourWrites
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Options for retrying failed operations with exponential backoff and full jitter.
+ *
+ * @typedef {Object} KeyvUpstashRetryOptions
+ *
+ * @property {number} [retries=3] - How many more times to try a failed operation.
+ * @property {number} [minDelay=50] - The maximum delay before the first retry, in milliseconds. It doubles on every retry.
+ * @property {number} [maxDelay=2000] - The maximum delay before any retry, in milliseconds.
+ * @property {(error: unknown) => boolean} [shouldRetry] - Decides whether an error is transient. By default every error is retried.
+ */
+export type KeyvUpstashRetryOptions = {
+  retries?: number
+  minDelay?: number
+  maxDelay?: number
+  shouldRetry?: (error: unknown) => boolean
+}
+
+/**
+ * Options for the circuit breaker that stops calling Upstash Redis after repeated failures.
+ *
+ * @typedef {Object} KeyvUpstashCircuitBreakerOptions
+ *
+ * @property {number} [failureThreshold=5] - How many operations in a row must fail for the circuit to open.
+ * @property {number} [cooldown=10000] - For how long operations are short-circuited once the circuit is open, in milliseconds.
+ */
+export type KeyvUpstashCircuitBreakerOptions = {
+  failureThreshold?: number
+  cooldown?: number
+}
+
+/**
+ * The state of a circuit breaker: `closed` lets operations through, `open` short-circuits them and `half-open`
+ * lets a single trial operation through after the cooldown.
+ */
+export type KeyvUpstashCircuitState = "closed" | "open" | "half-open"
+
+/**
+ * The payload of the `retry` event, emitted before an operation is retried.
+ *
+ * @typedef {Object} KeyvUpstashRetryEvent
+ *
+ * @property {string} operation - The name of the adapter method.
+ * @property {string[]} keys - The keys of the operation.
+ * @property {number} attempt - The number of the attempt that failed, starting at 1.
+ * @property {number} delay - How long to wait before the next attempt, in milliseconds.
+ * @property {unknown} error - The error of the failed attempt.
+ */
+export type KeyvUpstashRetryEvent = {
+  operation: string
+  keys: string[]
+  attempt: number
+  delay: number
+  error: unknown
+}
+
+/**
+ * Resolves the retry policy option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the retry options.
+ * @returns The resolved options, or `undefined` if retries are disabled.
+ */
+export function resolveRetryOptions(
+  option: boolean | KeyvUpstashRetryOptions | undefined
+): Required<KeyvUpstashRetryOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    retries: options.retries ?? 3,
+    minDelay: options.minDelay ?? 50,
+    maxDelay: options.maxDelay ?? 2000,
+    shouldRetry: options.shouldRetry ?? (() => true),
+  }
+}
+
+/**
+ * Resolves the circuit breaker option passed to the constructor into a complete set of options.
+ *
+ * @param option - `true` to use the defaults, or the circuit breaker options.
+ * @returns The resolved options, or `undefined` if the circuit breaker is disabled.
+ */
+export function resolveCircuitBreakerOptions(
+  option: boolean | KeyvUpstashCircuitBreakerOptions | undefined
+): Required<KeyvUpstashCircuitBreakerOptions> | undefined {
+  if (!option) return undefined
+
+  const options = option === true ? {} : option
+
+  return {
+    failureThreshold: options.failureThreshold ?? 5,
+    cooldown: options.cooldown ?? 10_000,
+  }
+}
+
+/**
+ * Computes the delay before a retry using exponential backoff with full jitter, which spreads the retries
+ * of concurrent clients instead of having them all retry at the same time.
+ *
+ * @param attempt - The number of the attempt that failed, starting at 1.
+ * @param options - The resolved retry options.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Required<KeyvUpstashRetryOptions>
+): number {
+  const ceiling = Math.min(
+    options.maxDelay,
+    options.minDelay * 2 ** (attempt - 1)
+  )
+
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * A circuit breaker that opens after a number of operations failed in a row, short-circuits operations while it is
+ * open, and lets a single trial operation through once the cooldown has passed to decide whether to close again.
+ */
+export class KeyvUpstashCircuitBreaker {
+  /**
+   * The resolved circuit breaker options.
+   */
+  readonly options: Required<KeyvUpstashCircuitBreakerOptions>
+
+  /**
+   * The current state of the circuit.
+   */
+  state: KeyvUpstashCircuitState = "closed"
+
+  /**
+   * The number of operations that failed in a row.
+   */
+  failures = 0
+
+  /**
+   * When the circuit was last opened, in milliseconds since the epoch.
+   */
+  private openedAt = 0
+
+  /**
+   * Creates a closed circuit breaker.
+   *
+   * @param options - The resolved circuit breaker options.
+   */
+  constructor(options: Required<KeyvUpstashCircuitBreakerOptions>) {
+    this.options = options
+  }
+
+  /**
+   * Checks if an operation can be executed, moving an open circuit to half-open once the cooldown has passed.
+   * Only one operation is let through while the circuit is half-open.
+   */
+  tryPass(): boolean {
+    if (this.state === "closed") return true
+
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.options.cooldown
+    ) {
+      this.state = "half-open"
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Records a successful operation.
+   *
+   * @returns true if the circuit was closed by this success.
+   */
+  recordSuccess(): boolean {
+    this.failures = 0
+    if (this.state === "closed") return false
+
+    this.state = "closed"
+    return true
+  }
+
+  /**
+   * Records a failed operation.
+   *
+   * @returns true if the circuit was opened by this failure.
+   */
+  recordFailure(): boolean {
+    this.failures++
+    if (
+      this.state === "open" ||
+      (this.state === "closed" && this.failures < this.options.failureThreshold)
+    ) {
+      return false
+    }
+
+    this.state = "open"
+    this.openedAt = Date.now()
+    return true
+  }
+}
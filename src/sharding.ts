@@ -0,0 +1,173 @@
+import { createHash } from "crypto"
+import { Redis, RedisConfigNodejs } from "@upstash/redis"
+
+/**
+ * A shard: an Upstash Redis instance, or the REST API URL and token of an Upstash Redis database.
+ */
+export type KeyvUpstashShard = Redis | Pick<RedisConfigNodejs, "url" | "token">
+
+/**
+ * Options for distributing keys across several Upstash Redis databases.
+ *
+ * @typedef {Object} KeyvUpstashShardingOptions
+ *
+ * @property {KeyvUpstashShard[]} shards - The databases the keys are distributed across along with the primary client,
+ * which is always the first shard. New shards must be appended so that most keys stay where they are.
+ * @property {number} [virtualNodes=160] - The number of points of each shard on the hash ring. More points spread the keys
+ * more evenly, at the cost of memory.
+ * @property {boolean} [hashTags=true] - Whether only the part of a key between the first `{` and the next `}` is hashed,
+ * if it is not empty, so that keys like `{user:1}:profile` and `{user:1}:settings` are stored in the same shard.
+ */
+export type KeyvUpstashShardingOptions = {
+  shards: KeyvUpstashShard[]
+  virtualNodes?: number
+  hashTags?: boolean
+}
+
+/**
+ * Options for `rebalance`.
+ *
+ * @typedef {Object} KeyvUpstashRebalanceOptions
+ *
+ * @property {boolean} [dryRun=false] - Whether to only count the keys that would be moved, without moving them.
+ * @property {number} [batchSize] - The number of keys to move in a single transaction. Defaults to `clearBatchSize`.
+ */
+export type KeyvUpstashRebalanceOptions = {
+  dryRun?: boolean
+  batchSize?: number
+}
+
+/**
+ * The result of `rebalance`, also emitted as a `rebalance-progress` event after every batch.
+ *
+ * @typedef {Object} KeyvUpstashRebalanceResult
+ *
+ * @property {number} scanned - The number of keys scanned so far, in every shard.
+ * @property {number} moved - The number of keys moved (or that would be moved) to another shard so far.
+ */
+export type KeyvUpstashRebalanceResult = {
+  scanned: number
+  moved: number
+}
+
+/**
+ * Resolves the sharding option passed to the constructor into a complete set of options.
+ *
+ * @param option - The sharding options.
+ * @param createClient - Creates a client from the URL and token of a shard.
+ * @returns The resolved options with a client for every shard, or `undefined` if there are no shards besides the primary.
+ */
+export function resolveShardingOptions(
+  option: KeyvUpstashShardingOptions | undefined,
+  createClient: (config: Pick<RedisConfigNodejs, "url" | "token">) => Redis
+): Required<KeyvUpstashShardingOptions> | undefined {
+  if (!option?.shards.length) return undefined
+
+  return {
+    shards: option.shards.map((shard) =>
+      shard instanceof Redis ? shard : createClient(shard)
+    ),
+    virtualNodes: option.virtualNodes ?? 160,
+    hashTags: option.hashTags ?? true,
+  }
+}
+
+/**
+ * Hashes a string into an unsigned 32-bit integer.
+ *
+ * @param value - The string to hash.
+ * @returns The hash.
+ */
+function hash(value: string): number {
+  return createHash("md5").update(value).digest().readUInt32BE(0)
+}
+
+/**
+ * Maps keys to shards with consistent hashing, so that adding a shard only moves the keys that now belong to it.
+ * The primary client is shard 0 and the `shards` option are the shards 1 and up.
+ */
+export class KeyvUpstashShardRing {
+  /**
+   * The resolved sharding options.
+   */
+  readonly options: Required<KeyvUpstashShardingOptions>
+
+  /**
+   * The points of the ring in ascending order, each with the shard it belongs to.
+   */
+  private readonly points: Array<{ point: number; shard: number }> = []
+
+  /**
+   * Creates a ring.
+   *
+   * @param options - The resolved sharding options, where every shard is a client.
+   */
+  constructor(options: Required<KeyvUpstashShardingOptions>) {
+    this.options = options
+
+    for (let shard = 0; shard < this.size; shard++) {
+      for (let node = 0; node < options.virtualNodes; node++) {
+        this.points.push({ point: hash(`shard-${shard}-${node}`), shard })
+      }
+    }
+    this.points.sort((a, b) => a.point - b.point)
+  }
+
+  /**
+   * The number of shards, including the primary.
+   */
+  get size(): number {
+    return this.options.shards.length + 1
+  }
+
+  /**
+   * Gets the client of a shard other than the primary.
+   *
+   * @param shard - The index of the shard, from 1.
+   * @returns The client of the shard.
+   */
+  client(shard: number): Redis {
+    return this.options.shards[shard - 1] as Redis
+  }
+
+  /**
+   * Gets the shard a key is stored in.
+   *
+   * @param key - The key, without the namespace prefix.
+   * @returns The index of the shard, where 0 is the primary.
+   */
+  shardOf(key: string): number {
+    const value = hash(this.options.hashTags ? getHashTag(key) : key)
+
+    // The first point at or after the hash, wrapping around the ring.
+    let low = 0
+    let high = this.points.length
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (this.points[middle].point < value) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    return this.points[low % this.points.length].shard
+  }
+}
+
+/**
+ * Gets the part of a key that is hashed when hash tags are enabled: the part between the first `{` and the next `}`,
+ * or the whole key if there is none or it is empty, like Redis Cluster does.
+ *
+ * @param key - The key.
+ * @returns The part of the key to hash.
+ */
+export function getHashTag(key: string): string {
+  const start = key.indexOf("{")
+  if (start === -1) return key
+
+  const end = key.indexOf("}", start + 1)
+  if (end === -1 || end === start + 1) return key
+
+  return key.slice(start + 1, end)
+}
@@ -3,14 +3,15 @@
  */
 
 import { Keyv } from "keyv"
-import { KeyvUpstash } from "../src/index"
+import { KeyvUpstash, KeyvUpstashOptions } from "../src/index"
 import { Redis } from "@upstash/redis"
 
 const UPSTASH_URL = "http://localhost:8079"
 const TOKEN = "example_token"
 
-export const createKeyvUpstash = () =>
-  new KeyvUpstash({ url: UPSTASH_URL, token: TOKEN })
+export const createKeyvUpstash = (
+  options: Omit<KeyvUpstashOptions, "url" | "token" | "upstashRedis"> = {}
+) => new KeyvUpstash({ ...options, url: UPSTASH_URL, token: TOKEN })
 
 export const createKeyv = () => new Keyv({ store: createKeyvUpstash() })
 
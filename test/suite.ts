@@ -10,3 +10,10 @@ test.beforeAll(async () => {
 
 keyvTestSuite(test, Keyv, createKeyvUpstash)
 keyvIteratorTests(test, Keyv, createKeyvUpstash)
+
+test.describe("hash storage", () => {
+  const createHashKeyvUpstash = () => createKeyvUpstash({ storage: "hash" })
+
+  keyvTestSuite(test, Keyv, createHashKeyvUpstash)
+  keyvIteratorTests(test, Keyv, createHashKeyvUpstash)
+})
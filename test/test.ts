@@ -1,6 +1,23 @@
-import { describe, test, expect, beforeEach } from "vitest"
+import { randomBytes } from "crypto"
+import { describe, test, expect, beforeEach, vi } from "vitest"
 import { delay } from "@keyv/test-suite"
-import { KeyvUpstash } from "../src/index"
+import { Keyv } from "keyv"
+import { Redis } from "@upstash/redis"
+import {
+  KeyvUpstash,
+  KeyvUpstashBulkError,
+  KeyvUpstashChangeEvent,
+  KeyvUpstashChangesOptions,
+  KeyvUpstashOperationEvent,
+  KeyvUpstashOperationStartEvent,
+  KeyvUpstashOptions,
+  KeyvUpstashReadReplicasOptions,
+  KeyvUpstashRebalanceResult,
+  KeyvUpstashReplicaErrorEvent,
+  KeyvUpstashShardRing,
+  getHashTag,
+  traceKeyvUpstash,
+} from "../src/index"
 import { createKeyv, createKeyvUpstash, createUpstash } from "./helpers"
 
 describe("KeyvUpstash", () => {
@@ -516,5 +533,3685 @@ describe("KeyvUpstash", () => {
       expect(values).not.toContain("bar1")
       expect(values).not.toContain("bar2")
     })
+    test.each(["string", "hash"] as const)(
+      "should filter keys and read their TTL with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-iterator-options",
+          storage,
+        })
+        await keyvUpstash.set("user:1", "bar1", 5000)
+        await keyvUpstash.set("user:2", "bar2")
+        await keyvUpstash.set("post:1", "bar3")
+
+        const entries = []
+        for await (const entry of keyvUpstash.iterator("ns-iterator-options", {
+          match: "user:*",
+          withTtl: true,
+        })) {
+          entries.push(entry)
+        }
+        entries.sort(([a], [b]) => a.localeCompare(b))
+        expect(entries).toEqual([
+          ["user:1", "bar1", expect.any(Number)],
+          ["user:2", "bar2", Infinity],
+        ])
+        expect(entries[0][2]).toBeGreaterThan(4000)
+        expect(entries[0][2]).toBeLessThanOrEqual(5000)
+
+        const keys = []
+        for await (const entry of keyvUpstash.iterator("ns-iterator-options", {
+          keysOnly: true,
+        })) {
+          keys.push(entry)
+        }
+        expect(keys.sort()).toEqual([
+          ["post:1", undefined],
+          ["user:1", undefined],
+          ["user:2", undefined],
+        ])
+      }
+    )
+
+    test.each([
+      { storage: "string" },
+      { storage: "string", useIndex: true },
+      { storage: "hash" },
+    ] as const)(
+      "should resume iterating from the cursor with %o",
+      async (options) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-iterator-cursor",
+          ...options,
+        })
+        await keyvUpstash.setMany(
+          Array.from({ length: 20 }, (_, i) => ({
+            key: `foo${i}`,
+            value: `bar${i}`,
+          }))
+        )
+
+        const keys = new Set<string>()
+        let cursor: string | undefined
+        let done = false
+        let iterations = 0
+        do {
+          const iterator = keyvUpstash.iterator("ns-iterator-cursor", {
+            pageSize: 5,
+            startCursor: cursor,
+          })
+          let count = 0
+          for await (const [key] of iterator) {
+            keys.add(key)
+            if (++count === 6) break
+          }
+          cursor = iterator.cursor
+          done = iterator.done
+          iterations++
+        } while (!done && iterations < 100)
+
+        expect(keys.size).toBe(20)
+      }
+    )
+
+    test("should expose the cursor once the iteration is complete", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-iterator-done" })
+      await keyvUpstash.set("foo", "bar")
+
+      const iterator = keyvUpstash.iterator("ns-iterator-done")
+      expect(iterator.cursor).toBe("0")
+      expect(iterator.done).toBe(false)
+      const entries = []
+      for await (const entry of iterator) {
+        entries.push(entry)
+      }
+      expect(entries).toEqual([["foo", "bar"]])
+      expect(iterator.cursor).toBe("0")
+      expect(iterator.done).toBe(true)
+    })
+
+    test("should tell an iteration that has not started from a complete one", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-iterator-start" })
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+      ])
+
+      // Stopped before the first page was consumed: resuming starts over.
+      const stopped = keyvUpstash.keys()
+      for await (const _ of stopped) break
+      expect(stopped.cursor).toBe("0")
+      expect(stopped.done).toBe(false)
+
+      const resumed = keyvUpstash.keys({ startCursor: stopped.cursor })
+      const keys = []
+      for await (const key of resumed) {
+        keys.push(key)
+      }
+      expect(keys.sort()).toEqual(["foo1", "foo2"])
+      expect(resumed.cursor).toBe("0")
+      expect(resumed.done).toBe(true)
+    })
+
+    test("should match the namespace literally", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-glob*" })
+      const other = createKeyvUpstash({ namespace: "ns-glob-other" })
+      await keyvUpstash.set("foo", "bar")
+      await other.set("foo", "baz")
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator("ns-glob*")) {
+        entries.push(entry)
+      }
+      expect(entries).toEqual([["foo", "bar"]])
+
+      await keyvUpstash.clear()
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+      expect(await other.get("foo")).toBe("baz")
+    })
+
+    test("should iterate over the keys of the namespace", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-keys" })
+      await keyvUpstash.setMany([
+        { key: "user:1", value: "bar1" },
+        { key: "user:2", value: "bar2" },
+        { key: "post:1", value: "bar3" },
+      ])
+
+      const keys = []
+      for await (const key of keyvUpstash.keys({ match: "user:*" })) {
+        keys.push(key)
+      }
+      expect(keys.sort()).toEqual(["user:1", "user:2"])
+    })
+
+    test("should stop iterating when the signal is aborted", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-iterator-abort",
+        failMode: "open",
+      })
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+      ])
+      const errorListener = vi.fn()
+      keyvUpstash.on("error", errorListener)
+
+      const controller = new AbortController()
+      const keys: string[] = []
+      await expect(async () => {
+        for await (const key of keyvUpstash.keys({
+          signal: controller.signal,
+        })) {
+          keys.push(key)
+          controller.abort(new Error("aborted"))
+        }
+      }).rejects.toThrow("aborted")
+      expect(keys).toHaveLength(1)
+      expect(errorListener).not.toHaveBeenCalled()
+
+      await expect(async () => {
+        for await (const _ of keyvUpstash.keys({ signal: controller.signal })) {
+          // never reached
+        }
+      }).rejects.toThrow("aborted")
+    })
+  })
+
+  describe("KeyvUpstash Compression", () => {
+    test("should compress large values and read them back", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      keyvUpstash.compression = { algorithm: "gzip", threshold: 10 }
+
+      const value = "bar".repeat(100)
+      await keyvUpstash.set("foo-compressed", value)
+
+      const raw = await keyvUpstash.client.get<string>("foo-compressed")
+      expect(raw?.length).toBeLessThan(value.length)
+      expect(await keyvUpstash.get("foo-compressed")).toBe(value)
+    })
+
+    test("should not compress values smaller than the threshold", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      keyvUpstash.compression = { algorithm: "gzip", threshold: 1024 }
+
+      await keyvUpstash.set("foo-small", "bar")
+
+      const raw = await keyvUpstash.client.get("foo-small")
+      expect(raw).toBe("bar")
+    })
+
+    test("should compare the size of values in bytes", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      keyvUpstash.compression = { algorithm: "gzip", threshold: 1000 }
+
+      // 400 characters of 3 bytes each, which gzip cannot shrink below 400 characters but can below 1200 bytes.
+      const value = [...randomBytes(400)]
+        .map((byte) => String.fromCharCode(0x4e00 + byte))
+        .join("")
+      await keyvUpstash.set("foo-multibyte", value)
+
+      const raw = await keyvUpstash.client.get<string>("foo-multibyte")
+      expect(raw?.startsWith("\u0000kvz:")).toBe(true)
+      expect(await keyvUpstash.get("foo-multibyte")).toBe(value)
+    })
+
+    test("should support all algorithms with setMany and getMany", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const value = JSON.stringify({ value: "bar".repeat(100) })
+
+      for (const algorithm of ["gzip", "deflate", "brotli"] as const) {
+        keyvUpstash.compression = { algorithm, threshold: 10 }
+        await keyvUpstash.setMany([
+          { key: `foo-${algorithm}1`, value },
+          { key: `foo-${algorithm}2`, value: "bar" },
+        ])
+      }
+
+      keyvUpstash.compression = undefined
+      const values = await keyvUpstash.getMany([
+        "foo-gzip1",
+        "foo-gzip2",
+        "foo-deflate1",
+        "foo-brotli1",
+        "foo-brotli2",
+      ])
+      expect(values).toEqual([value, "bar", value, value, "bar"])
+    })
+
+    test("should read values written before compression was enabled", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const value = "bar".repeat(100)
+
+      await keyvUpstash.set("foo-plain", value)
+      keyvUpstash.compression = { algorithm: "brotli", threshold: 10 }
+      await keyvUpstash.set("foo-brotli", value)
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator()) {
+        entries.push(entry)
+      }
+      expect(entries).toContainEqual(["foo-plain", value])
+      expect(entries).toContainEqual(["foo-brotli", value])
+    })
+
+    test("should compress values set through Keyv", async () => {
+      const keyvUpstash = createKeyvUpstash({ compression: true })
+      const keyv = new Keyv({ store: keyvUpstash })
+
+      const value = { foo: "bar".repeat(1000) }
+      await keyv.set("foo-keyv", value)
+      expect(await keyv.get("foo-keyv")).toEqual(value)
+    })
+  })
+
+  describe("KeyvUpstash Encryption", () => {
+    const key1 = { id: "key1", key: randomBytes(32).toString("base64") }
+    const key2 = { id: "key2", key: randomBytes(32) }
+
+    test("should encrypt values and read them back", async () => {
+      const keyvUpstash = createKeyvUpstash({ encryption: { keys: [key1] } })
+
+      await keyvUpstash.set("foo-encrypted", "secret bar")
+      await keyvUpstash.setMany([{ key: "foo-encrypted2", value: "secret" }])
+
+      const raw = await keyvUpstash.client.get<string>("foo-encrypted")
+      expect(raw).not.toContain("secret")
+      expect(await keyvUpstash.get("foo-encrypted")).toBe("secret bar")
+      expect(
+        await keyvUpstash.getMany(["foo-encrypted", "foo-encrypted2"])
+      ).toEqual(["secret bar", "secret"])
+    })
+
+    test("should combine encryption with compression", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        encryption: { keys: [key1] },
+        compression: { threshold: 10 },
+      })
+      const value = "secret".repeat(100)
+
+      await keyvUpstash.set("foo-encrypted", value)
+
+      const raw = await keyvUpstash.client.get<string>("foo-encrypted")
+      expect(raw?.length).toBeLessThan(value.length)
+      expect(await keyvUpstash.get("foo-encrypted")).toBe(value)
+    })
+
+    test("should decrypt values encrypted with an old key", async () => {
+      const keyvUpstash = createKeyvUpstash({ encryption: { keys: [key1] } })
+      await keyvUpstash.set("foo-old", "bar")
+
+      const rotated = createKeyvUpstash({
+        encryption: { keys: [key1, key2], currentKeyId: "key2" },
+      })
+      await rotated.set("foo-new", "bar2")
+
+      const entries = []
+      for await (const entry of rotated.iterator()) {
+        entries.push(entry)
+      }
+      expect(entries).toContainEqual(["foo-old", "bar"])
+      expect(entries).toContainEqual(["foo-new", "bar2"])
+      await expect(keyvUpstash.get("foo-new")).rejects.toThrow()
+    })
+
+    test("should re-encrypt values with the current key", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-reencrypt",
+        encryption: { keys: [key1] },
+      })
+      await keyvUpstash.set("foo1", "bar1", 10_000)
+      await keyvUpstash.set("foo2", "bar2")
+
+      const rotated = createKeyvUpstash({
+        namespace: "ns-reencrypt",
+        encryption: { keys: [key2, key1] },
+      })
+      await rotated.set("foo3", "bar3")
+      expect(await rotated.reencrypt()).toBe(2)
+      expect(await rotated.reencrypt()).toBe(0)
+
+      const withNewKey = createKeyvUpstash({
+        namespace: "ns-reencrypt",
+        encryption: { keys: [key2] },
+      })
+      expect(await withNewKey.getMany(["foo1", "foo2", "foo3"])).toEqual([
+        "bar1",
+        "bar2",
+        "bar3",
+      ])
+      expect(
+        await withNewKey.client.pttl("ns-reencrypt::foo1")
+      ).toBeGreaterThan(0)
+    })
+
+    test("should re-encrypt large values with the current key", async () => {
+      const largeValues = { threshold: 100, partSize: 40 }
+      const value = "secret".repeat(50)
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-reencrypt-large",
+        encryption: { keys: [key1] },
+        largeValues,
+      })
+      await keyvUpstash.set("foo", value, 10_000)
+      await keyvUpstash.set("bar", "small")
+      const parts = await keyvUpstash.client.keys(
+        "ns-reencrypt-large::*::part::*"
+      )
+      expect(parts.length).toBeGreaterThan(0)
+
+      const rotated = createKeyvUpstash({
+        namespace: "ns-reencrypt-large",
+        encryption: { keys: [key2, key1] },
+        largeValues,
+      })
+      expect(await rotated.reencrypt()).toBe(2)
+      expect(await rotated.reencrypt()).toBe(0)
+
+      const withNewKey = createKeyvUpstash({
+        namespace: "ns-reencrypt-large",
+        encryption: { keys: [key2] },
+        largeValues,
+      })
+      expect(await withNewKey.getMany(["foo", "bar"])).toEqual([value, "small"])
+      expect(
+        await withNewKey.client.pttl("ns-reencrypt-large::foo")
+      ).toBeGreaterThan(0)
+      for (const part of parts) {
+        expect(await withNewKey.client.exists(part)).toBe(0)
+      }
+    })
+
+    test("should throw on invalid encryption options", () => {
+      expect(() => createKeyvUpstash({ encryption: { keys: [] } })).toThrow()
+      expect(() =>
+        createKeyvUpstash({
+          encryption: { keys: [{ id: "short", key: "c2hvcnQ=" }] },
+        })
+      ).toThrow()
+      expect(() =>
+        createKeyvUpstash({
+          encryption: { keys: [key1], currentKeyId: "unknown" },
+        })
+      ).toThrow()
+    })
+
+    test("should throw on reencrypt if encryption is not enabled", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      await expect(keyvUpstash.reencrypt()).rejects.toThrow()
+    })
+  })
+
+  describe("KeyvUpstash getOrSet", () => {
+    test("should load and set the value if the key does not exist", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const loader = vi.fn(() => "bar")
+
+      expect(await keyvUpstash.getOrSet("foo-gos", loader)).toBe("bar")
+      expect(await keyvUpstash.getOrSet("foo-gos", loader)).toBe("bar")
+      expect(await keyvUpstash.get("foo-gos")).toBe("bar")
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    test("should return loaded values as they are read back", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const loader = vi.fn(() => ({ bar: "baz" }))
+
+      const loaded = await keyvUpstash.getOrSet("foo-gos-object", loader)
+      const read = await keyvUpstash.getOrSet("foo-gos-object", loader)
+      expect(loaded).toBe('{"bar":"baz"}')
+      expect(read).toEqual(loaded)
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    test("should set the value with the given ttl", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      await keyvUpstash.getOrSet("foo-gos-ttl", () => "bar", { ttl: 10 })
+      await delay(15)
+      expect(await keyvUpstash.get("foo-gos-ttl")).toBeUndefined()
+    })
+
+    test("should de-duplicate concurrent calls on the same instance", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const loader = vi.fn(async () => {
+        await delay(20)
+        return "bar"
+      })
+
+      const values = await Promise.all([
+        keyvUpstash.getOrSet("foo-gos-dedupe", loader),
+        keyvUpstash.getOrSet("foo-gos-dedupe", loader),
+        keyvUpstash.getOrSet("foo-gos-dedupe", loader),
+      ])
+      expect(values).toEqual(["bar", "bar", "bar"])
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    test("should wait for another instance holding the lock", async () => {
+      const keyvUpstash1 = createKeyvUpstash({ namespace: "ns-gos" })
+      const keyvUpstash2 = createKeyvUpstash({ namespace: "ns-gos" })
+      const loader = vi.fn(async () => {
+        await delay(50)
+        return "bar"
+      })
+
+      const values = await Promise.all([
+        keyvUpstash1.getOrSet("foo", loader),
+        delay(10).then(() => keyvUpstash2.getOrSet("foo", loader)),
+      ])
+      expect(values).toEqual(["bar", "bar"])
+      expect(loader).toHaveBeenCalledTimes(1)
+
+      const keys = []
+      for await (const [key] of keyvUpstash1.iterator("ns-gos")) {
+        keys.push(key)
+      }
+      expect(keys).toEqual(["foo"])
+    })
+
+    test("should load the value itself after waitTimeout", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      await keyvUpstash.client.set("__keyv_upstash::lock::foo-gos-wait", "x")
+
+      const value = await keyvUpstash.getOrSet("foo-gos-wait", () => "bar", {
+        waitTimeout: 20,
+        pollInterval: 5,
+      })
+      expect(value).toBe("bar")
+      expect(await keyvUpstash.get("foo-gos-wait")).toBe("bar")
+    })
+
+    test("should not set undefined values and release the lock on errors", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      expect(
+        await keyvUpstash.getOrSet("foo-gos-undefined", () => undefined)
+      ).toBeUndefined()
+      expect(await keyvUpstash.has("foo-gos-undefined")).toBe(false)
+
+      await expect(
+        keyvUpstash.getOrSet("foo-gos-error", () => {
+          throw new Error("failed")
+        })
+      ).rejects.toThrow("failed")
+      expect(
+        await keyvUpstash.client.exists("__keyv_upstash::lock::foo-gos-error")
+      ).toBe(0)
+    })
+  })
+
+  describe("KeyvUpstash Stale While Revalidate", () => {
+    test("should keep serving values during the grace period", async () => {
+      const keyvUpstash = createKeyvUpstash({ staleWhileRevalidate: 1000 })
+
+      await keyvUpstash.set("foo-swr", "bar", 200)
+      expect(await keyvUpstash.getWithStaleness("foo-swr")).toEqual({
+        value: "bar",
+        stale: false,
+      })
+
+      await delay(250)
+      expect(await keyvUpstash.get("foo-swr")).toBe("bar")
+      expect(await keyvUpstash.getWithStaleness("foo-swr")).toEqual({
+        value: "bar",
+        stale: true,
+      })
+      expect(await keyvUpstash.client.pttl("foo-swr")).toBeGreaterThan(0)
+    })
+
+    test("should expire values after the grace period", async () => {
+      const keyvUpstash = createKeyvUpstash({ staleWhileRevalidate: 50 })
+
+      await keyvUpstash.setMany([{ key: "foo-swr-many", value: "bar", ttl: 5 }])
+      await delay(10)
+      expect(await keyvUpstash.getMany(["foo-swr-many"])).toEqual(["bar"])
+      await delay(60)
+      expect(await keyvUpstash.getMany(["foo-swr-many"])).toEqual([undefined])
+    })
+
+    test("should not report values without a ttl as stale", async () => {
+      const keyvUpstash = createKeyvUpstash({ staleWhileRevalidate: 10 })
+
+      await keyvUpstash.set("foo-swr-no-ttl", "bar")
+      expect(await keyvUpstash.client.get("foo-swr-no-ttl")).toBe("bar")
+      expect(await keyvUpstash.getWithStaleness("foo-swr-no-ttl")).toEqual({
+        value: "bar",
+        stale: false,
+      })
+      expect(await keyvUpstash.getWithStaleness("foo-swr-missing")).toEqual({
+        value: undefined,
+        stale: false,
+      })
+    })
+
+    test("should refresh stale values in the background with getOrSet", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        staleWhileRevalidate: 1000,
+        compression: { threshold: 1 },
+      })
+      await keyvUpstash.set("foo-swr-refresh", "bar", 10)
+      await delay(15)
+
+      const loader = vi.fn(() => "bar2")
+      const values = await Promise.all([
+        keyvUpstash.getOrSet("foo-swr-refresh", loader, { ttl: 1000 }),
+        keyvUpstash.getOrSet("foo-swr-refresh", loader, { ttl: 1000 }),
+      ])
+      expect(values).toEqual(["bar", "bar"])
+
+      await delay(20)
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(await keyvUpstash.getWithStaleness("foo-swr-refresh")).toEqual({
+        value: "bar2",
+        stale: false,
+      })
+    })
+
+    test("should emit errors of background refreshes", async () => {
+      const keyvUpstash = createKeyvUpstash({ staleWhileRevalidate: 1000 })
+      const errors: unknown[] = []
+      keyvUpstash.on("error", (error) => errors.push(error))
+      await keyvUpstash.set("foo-swr-error", "bar", 10)
+      await delay(15)
+
+      const value = await keyvUpstash.getOrSet("foo-swr-error", () => {
+        throw new Error("failed")
+      })
+      expect(value).toBe("bar")
+
+      await delay(20)
+      expect(errors).toHaveLength(1)
+    })
+
+    test("should not reject background refreshes without an error listener", async () => {
+      const keyvUpstash = createKeyvUpstash({ staleWhileRevalidate: 1000 })
+      const rejections: unknown[] = []
+      const onRejection = (reason: unknown) => rejections.push(reason)
+      process.on("unhandledRejection", onRejection)
+      await keyvUpstash.set("foo-swr-no-listener", "bar", 10)
+      await delay(15)
+
+      try {
+        const value = await keyvUpstash.getOrSet("foo-swr-no-listener", () => {
+          throw new Error("failed")
+        })
+        expect(value).toBe("bar")
+
+        await delay(20)
+        expect(rejections).toEqual([])
+      } finally {
+        process.off("unhandledRejection", onRejection)
+      }
+    })
+
+    test("should refresh values early with beta", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const loader = vi.fn(async () => {
+        await delay(10)
+        return "bar"
+      })
+
+      await keyvUpstash.getOrSet("foo-xfetch", loader, { ttl: 1000 })
+      await keyvUpstash.getOrSet("foo-xfetch", loader, { ttl: 1000 })
+      expect(loader).toHaveBeenCalledTimes(1)
+
+      await keyvUpstash.getOrSet("foo-xfetch", loader, {
+        ttl: 1000,
+        beta: 1_000_000,
+      })
+      await delay(30)
+      expect(loader).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("KeyvUpstash Locks", () => {
+    test("should acquire and release a lock", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-lock" })
+
+      const lock = await keyvUpstash.lock("job")
+      expect(lock.key).toBe("ns-lock::__keyv_upstash::lock::job")
+      await expect(keyvUpstash.lock("job")).rejects.toThrow()
+
+      expect(await lock.release()).toBe(true)
+      expect(await lock.release()).toBe(false)
+
+      const lock2 = await keyvUpstash.lock("job")
+      expect(await lock2.release()).toBe(true)
+    })
+
+    test("should retry until the lock is released", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      const lock = await keyvUpstash.lock("job", { ttl: 20 })
+      const lock2 = await keyvUpstash.lock("job", { retry: 10, retryDelay: 5 })
+      expect(lock2.token).not.toBe(lock.token)
+    })
+
+    test("should not release or extend a lock held by someone else", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      const lock = await keyvUpstash.lock("job", { ttl: 10 })
+      await delay(15)
+      const lock2 = await keyvUpstash.lock("job")
+
+      expect(await lock.extend()).toBe(false)
+      expect(await lock.release()).toBe(false)
+      expect(await lock2.extend(10_000)).toBe(true)
+      expect(await keyvUpstash.client.pttl(lock2.key)).toBeGreaterThan(5000)
+    })
+
+    test("should stop retrying when the signal is aborted", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      await keyvUpstash.lock("job")
+
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(new Error("aborted")), 20)
+      await expect(
+        keyvUpstash.lock("job", {
+          retry: 100,
+          retryDelay: 5,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow("aborted")
+    })
+
+    test("should prevent getOrSet from loading a locked key", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const lock = await keyvUpstash.lock("foo-locked")
+
+      const promise = keyvUpstash.getOrSet("foo-locked", () => "bar", {
+        pollInterval: 5,
+      })
+      await delay(20)
+      await keyvUpstash.set("foo-locked", "bar2")
+      await lock.release()
+
+      expect(await promise).toBe("bar2")
+    })
+  })
+
+  describe("KeyvUpstash Tags", () => {
+    test("should invalidate keys by tag", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-tags" })
+
+      await keyvUpstash.set("foo1", "bar1", undefined, { tags: ["a"] })
+      await keyvUpstash.setMany([
+        { key: "foo2", value: "bar2", tags: ["a", "b"] },
+        { key: "foo3", value: "bar3", tags: ["b"] },
+        { key: "foo4", value: "bar4" },
+      ])
+      await keyvUpstash.getOrSet("foo5", () => "bar5", { tags: ["c"] })
+
+      expect(await keyvUpstash.invalidateTags(["a"])).toBe(2)
+      expect(
+        await keyvUpstash.getMany(["foo1", "foo2", "foo3", "foo4", "foo5"])
+      ).toEqual([undefined, undefined, "bar3", "bar4", "bar5"])
+
+      expect(await keyvUpstash.invalidateTags(["a", "b", "c"])).toBe(2)
+      expect(
+        await keyvUpstash.client.exists(
+          "ns-tags::__keyv_upstash::tag::a",
+          "ns-tags::__keyv_upstash::tag::b",
+          "ns-tags::__keyv_upstash::tag::c"
+        )
+      ).toBe(0)
+      expect(await keyvUpstash.invalidateTags([])).toBe(0)
+    })
+
+    test("should ignore expired keys and use useUnlink", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      keyvUpstash.useUnlink = false
+
+      await keyvUpstash.set("foo-tag-ttl", "bar", 5, { tags: ["a"] })
+      await keyvUpstash.set("foo-tag", "bar", undefined, { tags: ["a"] })
+      await delay(10)
+
+      expect(await keyvUpstash.invalidateTags(["a"])).toBe(1)
+      expect(await keyvUpstash.has("foo-tag")).toBe(false)
+    })
+
+    test("should expire tag sets with their keys", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const tagKey = "__keyv_upstash::tag::a"
+
+      await keyvUpstash.set("foo-tag1", "bar", 1000, { tags: ["a"] })
+      await keyvUpstash.set("foo-tag2", "bar", 5000, { tags: ["a"] })
+      await keyvUpstash.set("foo-tag3", "bar", 10, { tags: ["a"] })
+      expect(await keyvUpstash.client.pttl(tagKey)).toBeGreaterThan(1000)
+
+      await keyvUpstash.set("foo-tag4", "bar", undefined, { tags: ["a"] })
+      expect(await keyvUpstash.client.pttl(tagKey)).toBe(-1)
+    })
+  })
+
+  describe("KeyvUpstash Namespace Index", () => {
+    const indexKey = "ns-index::__keyv_upstash::index"
+
+    test("should add and remove keys from the index", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-index",
+        useIndex: true,
+      })
+
+      await keyvUpstash.set("foo1", "bar1")
+      await keyvUpstash.setMany([
+        { key: "foo2", value: "bar2", ttl: 1000 },
+        { key: "foo3", value: "bar3" },
+      ])
+      await keyvUpstash.getOrSet("foo4", () => "bar4")
+      expect(await keyvUpstash.client.zcard(indexKey)).toBe(4)
+
+      expect(await keyvUpstash.delete("foo1")).toBe(true)
+      expect(await keyvUpstash.deleteMany(["foo2", "foo5"])).toBe(true)
+      expect(await keyvUpstash.client.zrange(indexKey, 0, -1)).toEqual([
+        "ns-index::foo3",
+        "ns-index::foo4",
+      ])
+    })
+
+    test("should only clear the keys in the index", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-index",
+        useIndex: true,
+        clearBatchSize: 2,
+      })
+      keyvUpstash.useUnlink = false
+
+      await keyvUpstash.client.set("ns-index::not-indexed", "bar")
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+        { key: "foo3", value: "bar3" },
+      ])
+      await keyvUpstash.clear()
+
+      expect(await keyvUpstash.getMany(["foo1", "foo2", "foo3"])).toEqual([
+        undefined,
+        undefined,
+        undefined,
+      ])
+      expect(await keyvUpstash.get("not-indexed")).toBe("bar")
+      expect(await keyvUpstash.client.zcard(indexKey)).toBe(0)
+    })
+
+    test("should iterate over the keys in the index and prune expired ones", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-index",
+        useIndex: true,
+        clearBatchSize: 2,
+      })
+
+      await keyvUpstash.client.set("ns-index::not-indexed", "bar")
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2", ttl: 5 },
+        { key: "foo3", value: "bar3" },
+        { key: "foo4", value: "bar4" },
+      ])
+      await keyvUpstash.client.del("ns-index::foo4")
+      await delay(10)
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator("ns-index")) {
+        entries.push(entry)
+      }
+      expect(entries).toEqual([
+        ["foo1", "bar1"],
+        ["foo3", "bar3"],
+      ])
+      expect(await keyvUpstash.client.zrange(indexKey, 0, -1)).toEqual([
+        "ns-index::foo1",
+        "ns-index::foo3",
+      ])
+    })
+
+    test("should use an index for keys without a namespace", async () => {
+      const keyvUpstash = createKeyvUpstash({ useIndex: true })
+
+      await keyvUpstash.set("foo-index", "bar")
+      keyvUpstash.namespace = "ns-index"
+      await keyvUpstash.set("foo-index", "bar2")
+      keyvUpstash.namespace = undefined
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator()) {
+        entries.push(entry)
+      }
+      expect(entries).toEqual([["foo-index", "bar"]])
+
+      await keyvUpstash.clear()
+      expect(await keyvUpstash.get("foo-index")).toBeUndefined()
+      keyvUpstash.namespace = "ns-index"
+      expect(await keyvUpstash.get("foo-index")).toBe("bar2")
+    })
+  })
+
+  describe("KeyvUpstash Hash Storage", () => {
+    const hashKey = "ns-hash::__keyv_upstash::hash"
+    const expiryKey = "ns-hash::__keyv_upstash::expiry"
+
+    test("should store the keys of a namespace in a single hash", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-hash",
+        storage: "hash",
+      })
+
+      await keyvUpstash.set("foo1", "bar1")
+      await keyvUpstash.setMany([
+        { key: "foo2", value: "bar2", ttl: 1000 },
+        { key: "foo3", value: "bar3" },
+      ])
+
+      expect(await keyvUpstash.client.hlen(hashKey)).toBe(3)
+      expect(await keyvUpstash.client.hget(hashKey, "foo2")).toBe("bar2")
+      expect(await keyvUpstash.client.zrange(expiryKey, 0, -1)).toEqual([
+        "foo2",
+      ])
+      expect(await keyvUpstash.client.exists("ns-hash::foo1")).toBe(0)
+
+      expect(await keyvUpstash.get("foo1")).toBe("bar1")
+      expect(await keyvUpstash.getMany(["foo1", "foo2", "missing"])).toEqual([
+        "bar1",
+        "bar2",
+        undefined,
+      ])
+      expect(await keyvUpstash.has("foo3")).toBe(true)
+      expect(await keyvUpstash.hasMany(["foo2", "missing"])).toEqual([
+        true,
+        false,
+      ])
+
+      expect(await keyvUpstash.deleteMany(["foo2", "missing"])).toBe(true)
+      expect(await keyvUpstash.delete("foo2")).toBe(false)
+      expect(await keyvUpstash.client.zcard(expiryKey)).toBe(0)
+    })
+
+    test("should expire fields lazily", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-hash",
+        storage: "hash",
+      })
+
+      await keyvUpstash.set("foo1", "bar1", 5)
+      await keyvUpstash.set("foo2", "bar2", 5)
+      await keyvUpstash.set("foo2", "bar2")
+      await delay(10)
+
+      expect(await keyvUpstash.client.hexists(hashKey, "foo1")).toBe(1)
+      expect(await keyvUpstash.has("foo1")).toBe(false)
+      expect(await keyvUpstash.client.hexists(hashKey, "foo1")).toBe(0)
+      expect(await keyvUpstash.get("foo2")).toBe("bar2")
+    })
+
+    test("should clear and iterate over a namespace hash", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-hash",
+        storage: "hash",
+        clearBatchSize: 1,
+      })
+
+      await keyvUpstash.set("foo1", "bar1")
+      await keyvUpstash.set("foo2", "bar2", 5)
+      await keyvUpstash.set("foo3", "bar3", 5)
+      await keyvUpstash.client.set("ns-hash::foo4", "bar4")
+      await delay(10)
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator("ns-hash")) {
+        entries.push(entry)
+      }
+      expect(entries).toEqual([["foo1", "bar1"]])
+
+      await keyvUpstash.clear()
+      expect(await keyvUpstash.client.exists(hashKey, expiryKey)).toBe(0)
+      expect(await keyvUpstash.client.get("ns-hash::foo4")).toBe("bar4")
+    })
+
+    test("should work with tags and encryption", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-hash",
+        storage: "hash",
+        encryption: { keys: [{ id: "k1", key: randomBytes(32) }] },
+      })
+
+      await keyvUpstash.set("foo1", "bar1", undefined, { tags: ["tag"] })
+      await keyvUpstash.set("foo2", "bar2")
+      expect(await keyvUpstash.invalidateTags(["tag"])).toBe(1)
+
+      keyvUpstash.encryption = {
+        keys: [
+          ...keyvUpstash.encryption!.keys,
+          { id: "k2", key: randomBytes(32) },
+        ],
+        currentKeyId: "k2",
+      }
+      expect(await keyvUpstash.reencrypt()).toBe(1)
+      expect(await keyvUpstash.client.hget(hashKey, "foo2")).toMatch(
+        /^\u0000kve:k2:/
+      )
+      expect(await keyvUpstash.getMany(["foo1", "foo2"])).toEqual([
+        undefined,
+        "bar2",
+      ])
+    })
+  })
+
+  describe("KeyvUpstash Memory Cache", () => {
+    test("should serve reads from memory until the key is written through the adapter", async () => {
+      const keyvUpstash = createKeyvUpstash({ memoryCache: true })
+
+      await keyvUpstash.set("foo", "bar")
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+
+      await keyvUpstash.client.set("foo", "changed")
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(await keyvUpstash.getMany(["foo", "missing"])).toEqual([
+        "bar",
+        undefined,
+      ])
+
+      await keyvUpstash.client.del("foo")
+      expect(await keyvUpstash.has("foo")).toBe(true)
+      expect(await keyvUpstash.hasMany(["foo", "missing"])).toEqual([
+        true,
+        false,
+      ])
+
+      await keyvUpstash.set("foo", "bar2")
+      expect(await keyvUpstash.get("foo")).toBe("bar2")
+      await keyvUpstash.delete("foo")
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+
+      expect(keyvUpstash.memoryCache?.stats()).toEqual({
+        hits: 2,
+        misses: 4,
+        entries: 0,
+        bytes: 0,
+      })
+    })
+
+    test.each(["string", "hash"] as const)(
+      "should not keep values in memory longer than their TTL with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-memory",
+          storage,
+          memoryCache: { ttl: 1000 },
+        })
+
+        await keyvUpstash.set("foo1", "bar1", 200)
+        await keyvUpstash.set("foo2", "bar2")
+        expect(await keyvUpstash.getMany(["foo1", "foo2"])).toEqual([
+          "bar1",
+          "bar2",
+        ])
+        await delay(250)
+
+        expect(await keyvUpstash.get("foo1")).toBeUndefined()
+        expect(await keyvUpstash.get("foo2")).toBe("bar2")
+        expect(keyvUpstash.memoryCache?.hits).toBe(1)
+      }
+    )
+
+    test("should evict the least recently used values", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        memoryCache: { maxEntries: 2, maxBytes: 10 },
+      })
+
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+        { key: "foo3", value: "bar3" },
+        { key: "large", value: "a value larger than 10 bytes" },
+      ])
+      await keyvUpstash.getMany(["foo1", "foo2", "large"])
+      await keyvUpstash.get("foo1")
+      await keyvUpstash.get("foo3")
+
+      const memoryCache = keyvUpstash.memoryCache!
+      expect(memoryCache.has("foo1")).toBe(true)
+      expect(memoryCache.has("foo2")).toBe(false)
+      expect(memoryCache.has("foo3")).toBe(true)
+      expect(memoryCache.has("large")).toBe(false)
+      expect(memoryCache.stats().bytes).toBe(8)
+
+      await keyvUpstash.clear()
+      expect(memoryCache.stats().entries).toBe(0)
+    })
+  })
+
+  describe("KeyvUpstash Batching", () => {
+    test("should coalesce concurrent get calls into a single MGET", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        batching: true,
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+      ])
+      const getSpy = vi.spyOn(keyvUpstash.client, "get")
+      const mgetSpy = vi.spyOn(keyvUpstash.client, "mget")
+
+      const values = await Promise.all([
+        keyvUpstash.get("foo1"),
+        keyvUpstash.get("foo2"),
+        keyvUpstash.get("foo1"),
+        keyvUpstash.get("missing"),
+      ])
+
+      expect(values).toEqual(["bar1", "bar2", "bar1", undefined])
+      expect(getSpy).not.toHaveBeenCalled()
+      expect(mgetSpy).toHaveBeenCalledTimes(1)
+      expect(mgetSpy).toHaveBeenCalledWith(["foo1", "foo2", "missing"])
+    })
+
+    test("should send a batch as soon as it is full", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        batching: { window: 1000, maxBatchSize: 2 },
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo1", "bar1")
+      const mgetSpy = vi.spyOn(keyvUpstash.client, "mget")
+
+      const values = await Promise.all([
+        keyvUpstash.get("foo1"),
+        keyvUpstash.get("foo2"),
+        keyvUpstash.get("foo3"),
+        keyvUpstash.get("foo4"),
+      ])
+
+      expect(values).toEqual(["bar1", undefined, undefined, undefined])
+      expect(mgetSpy).toHaveBeenCalledTimes(2)
+    })
+
+    test("should coalesce concurrent has calls into a single transaction", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-batch",
+        batching: true,
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo1", "bar1")
+      keyvUpstash.namespace = undefined
+      await keyvUpstash.set("foo2", "bar2")
+      const existsSpy = vi.spyOn(keyvUpstash.client, "exists")
+      const multiSpy = vi.spyOn(keyvUpstash.client, "multi")
+
+      keyvUpstash.namespace = "ns-batch"
+      const inNamespace = [keyvUpstash.has("foo1"), keyvUpstash.has("foo2")]
+      keyvUpstash.namespace = undefined
+      const withoutNamespace = [
+        keyvUpstash.has("foo1"),
+        keyvUpstash.has("foo2"),
+      ]
+
+      expect(await Promise.all([...inNamespace, ...withoutNamespace])).toEqual([
+        true,
+        false,
+        false,
+        true,
+      ])
+      expect(existsSpy).not.toHaveBeenCalled()
+      expect(multiSpy).toHaveBeenCalledTimes(2)
+    })
+
+    test("should reject every call of a failed batch", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        batching: true,
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "mget").mockRejectedValue(
+        new Error("Network error")
+      )
+
+      const results = await Promise.allSettled([
+        keyvUpstash.get("foo1"),
+        keyvUpstash.get("foo2"),
+      ])
+
+      expect(results.map((result) => result.status)).toEqual([
+        "rejected",
+        "rejected",
+      ])
+    })
+  })
+
+  describe("KeyvUpstash Resilience", () => {
+    test("should retry failed operations with backoff", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        retryPolicy: { retries: 2, minDelay: 1 },
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo", "bar")
+      const getSpy = vi
+        .spyOn(keyvUpstash.client, "get")
+        .mockRejectedValueOnce(new Error("Service unavailable"))
+        .mockRejectedValueOnce(new Error("Service unavailable"))
+      const onRetry = vi.fn()
+      keyvUpstash.on("retry", onRetry)
+
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(getSpy).toHaveBeenCalledTimes(3)
+      expect(onRetry).toHaveBeenCalledTimes(2)
+      expect(onRetry.mock.calls[1][0]).toMatchObject({
+        operation: "get",
+        keys: ["foo"],
+        attempt: 2,
+      })
+      expect(onRetry.mock.calls[1][0].delay).toBeLessThanOrEqual(2)
+    })
+
+    test("should give up after the last retry", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        retryPolicy: { retries: 1, minDelay: 1 },
+        enableAutoPipelining: false,
+      })
+      const error = new Error("Service unavailable")
+      const mgetSpy = vi
+        .spyOn(keyvUpstash.client, "mget")
+        .mockRejectedValue(error)
+
+      await expect(keyvUpstash.getMany(["foo1", "foo2"])).rejects.toBe(error)
+      expect(mgetSpy).toHaveBeenCalledTimes(2)
+    })
+
+    test("should not retry operations that are not idempotent or errors that are not transient", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        retryPolicy: {
+          minDelay: 1,
+          shouldRetry: (error) => (error as Error).message !== "WRONGTYPE",
+        },
+        enableAutoPipelining: false,
+      })
+      const evalSpy = vi
+        .spyOn(keyvUpstash.client, "eval")
+        .mockRejectedValue(new Error("Service unavailable"))
+      const getSpy = vi
+        .spyOn(keyvUpstash.client, "get")
+        .mockRejectedValue(new Error("WRONGTYPE"))
+
+      await expect(keyvUpstash.invalidateTags(["tag"])).rejects.toThrow()
+      await expect(keyvUpstash.get("foo")).rejects.toThrow("WRONGTYPE")
+      expect(evalSpy).toHaveBeenCalledTimes(1)
+      expect(getSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test("should open the circuit after repeated failures and close it after a successful trial", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        circuitBreaker: { failureThreshold: 2, cooldown: 50 },
+        enableAutoPipelining: false,
+      })
+      const getSpy = vi
+        .spyOn(keyvUpstash.client, "get")
+        .mockRejectedValue(new Error("Service unavailable"))
+      const onOpen = vi.fn()
+      const onClose = vi.fn()
+      keyvUpstash.on("circuit-open", onOpen)
+      keyvUpstash.on("circuit-close", onClose)
+
+      await expect(keyvUpstash.get("foo")).rejects.toThrow("unavailable")
+      expect(onOpen).not.toHaveBeenCalled()
+      await expect(keyvUpstash.get("foo")).rejects.toThrow("unavailable")
+      expect(onOpen).toHaveBeenCalledTimes(1)
+      expect(keyvUpstash.circuitBreaker?.state).toBe("open")
+
+      await expect(keyvUpstash.set("foo", "bar")).rejects.toThrow(
+        'Circuit breaker is open, "set" was not executed'
+      )
+      expect(getSpy).toHaveBeenCalledTimes(2)
+
+      await delay(60)
+      getSpy.mockRestore()
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+      expect(onClose).toHaveBeenCalledTimes(1)
+      expect(keyvUpstash.circuitBreaker?.state).toBe("closed")
+    })
+
+    test("should reopen the circuit if the trial fails", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        circuitBreaker: { failureThreshold: 1, cooldown: 20 },
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "exists").mockRejectedValue(
+        new Error("Service unavailable")
+      )
+      const onOpen = vi.fn()
+      keyvUpstash.on("circuit-open", onOpen)
+
+      await expect(keyvUpstash.has("foo")).rejects.toThrow("unavailable")
+      await delay(30)
+      const trial = keyvUpstash.has("foo")
+      await expect(keyvUpstash.has("foo")).rejects.toThrow("Circuit breaker")
+      await expect(trial).rejects.toThrow("unavailable")
+
+      expect(onOpen).toHaveBeenCalledTimes(2)
+      expect(keyvUpstash.circuitBreaker?.state).toBe("open")
+    })
+  })
+
+  describe("KeyvUpstash Fail Mode", () => {
+    const error = new Error("Service unavailable")
+
+    test("should default to closed and throw errors", async () => {
+      const keyvUpstash = createKeyvUpstash({ enableAutoPipelining: false })
+      vi.spyOn(keyvUpstash.client, "get").mockRejectedValue(error)
+
+      expect(keyvUpstash.failMode).toBe("closed")
+      expect(keyvUpstash.opts.failMode).toBe("closed")
+      await expect(keyvUpstash.get("foo")).rejects.toBe(error)
+    })
+
+    test("should return misses and emit errors with the operation and keys when open", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      for (const method of [
+        "get",
+        "mget",
+        "set",
+        "exists",
+        "unlink",
+        "multi",
+      ] as const) {
+        vi.spyOn(keyvUpstash.client, method).mockImplementation(() => {
+          throw error
+        })
+      }
+      const onError = vi.fn()
+      keyvUpstash.on("error", onError)
+
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+      expect(await keyvUpstash.getWithStaleness("foo")).toEqual({
+        value: undefined,
+        stale: false,
+      })
+      expect(await keyvUpstash.getMany(["foo1", "foo2"])).toEqual([
+        undefined,
+        undefined,
+      ])
+      expect(await keyvUpstash.has("foo")).toBe(false)
+      expect(await keyvUpstash.hasMany(["foo1", "foo2"])).toEqual([
+        false,
+        false,
+      ])
+      expect(await keyvUpstash.set("foo", "bar")).toBe(false)
+      expect(
+        await keyvUpstash.setMany([{ key: "foo1", value: "bar1" }])
+      ).toEqual([false])
+      expect(await keyvUpstash.delete("foo")).toBe(false)
+      expect(await keyvUpstash.deleteMany(["foo1", "foo2"])).toBe(false)
+
+      expect(onError.mock.calls).toEqual([
+        [error, { operation: "get", keys: ["foo"] }],
+        [error, { operation: "getWithStaleness", keys: ["foo"] }],
+        [error, { operation: "getMany", keys: ["foo1", "foo2"] }],
+        [error, { operation: "has", keys: ["foo"] }],
+        [error, { operation: "hasMany", keys: ["foo1", "foo2"] }],
+        [error, { operation: "set", keys: ["foo"] }],
+        [error, { operation: "setMany", keys: ["foo1"] }],
+        [error, { operation: "delete", keys: ["foo"] }],
+        [error, { operation: "deleteMany", keys: ["foo1", "foo2"] }],
+      ])
+    })
+
+    test("should stop iterating and emit the error when open", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo", "bar")
+      vi.spyOn(keyvUpstash.client, "mget").mockRejectedValue(error)
+      const onError = vi.fn()
+      keyvUpstash.on("error", onError)
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator()) {
+        entries.push(entry)
+      }
+
+      expect(entries).toEqual([])
+      expect(onError).toHaveBeenCalledWith(error, {
+        operation: "iterator",
+        keys: [],
+      })
+    })
+
+    test("should still throw errors of the iterator when closed", async () => {
+      const keyvUpstash = createKeyvUpstash({ enableAutoPipelining: false })
+      await keyvUpstash.set("foo", "bar")
+      vi.spyOn(keyvUpstash.client, "mget").mockRejectedValue(error)
+
+      const iterate = async () => {
+        for await (const _ of keyvUpstash.iterator()) {
+          // Consume the iterator.
+        }
+      }
+
+      await expect(iterate()).rejects.toBe(error)
+    })
+
+    test("should load the value with getOrSet when open and Upstash Redis is unavailable", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "get").mockRejectedValue(error)
+      vi.spyOn(keyvUpstash.client, "set").mockRejectedValue(error)
+      vi.spyOn(keyvUpstash.client, "eval").mockRejectedValue(error)
+      const onError = vi.fn()
+      keyvUpstash.on("error", onError)
+      const loader = vi.fn(() => "bar")
+
+      expect(await keyvUpstash.getOrSet("foo", loader)).toBe("bar")
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(error, {
+        operation: "getOrSet",
+        keys: ["foo"],
+      })
+    })
+
+    test("should return misses when open without an error listener", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "get").mockRejectedValue(error)
+      vi.spyOn(keyvUpstash.client, "set").mockRejectedValue(error)
+
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+      expect(await keyvUpstash.set("foo", "bar")).toBe(false)
+    })
+
+    test("should not refresh stale values without the lock when open", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        staleWhileRevalidate: 1000,
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo", "bar", 10)
+      await delay(15)
+      vi.spyOn(keyvUpstash.client, "set").mockRejectedValue(error)
+      vi.spyOn(keyvUpstash.client, "eval").mockRejectedValue(error)
+      keyvUpstash.on("error", vi.fn())
+      const loader = vi.fn(() => "bar2")
+
+      expect(await keyvUpstash.getOrSet("foo", loader)).toBe("bar")
+      await delay(20)
+      expect(loader).not.toHaveBeenCalled()
+    })
+
+    test("should keep throwing when a lock cannot be acquired", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "set").mockRejectedValue(error)
+
+      await expect(keyvUpstash.lock("job")).rejects.toBe(error)
+    })
+  })
+
+  describe("KeyvUpstash Instrumentation", () => {
+    test("should emit events with the hits, misses and size of the values of each operation", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-metrics" })
+      const started = vi.fn()
+      const events: KeyvUpstashOperationEvent[] = []
+      keyvUpstash.on("operation-start", started)
+      keyvUpstash.on("operation-end", (event) => events.push(event))
+
+      await keyvUpstash.set("foo", "bar")
+      await keyvUpstash.getMany(["foo", "missing"])
+      await keyvUpstash.has("missing")
+
+      expect(started.mock.calls).toEqual([
+        [{ operation: "set", namespace: "ns-metrics", keys: ["foo"] }],
+        [
+          {
+            operation: "getMany",
+            namespace: "ns-metrics",
+            keys: ["foo", "missing"],
+          },
+        ],
+        [{ operation: "has", namespace: "ns-metrics", keys: ["missing"] }],
+      ])
+      expect(events).toMatchObject([
+        { operation: "set", hits: 0, misses: 0, bytesSent: 3 },
+        {
+          operation: "getMany",
+          keys: ["foo", "missing"],
+          hits: 1,
+          misses: 1,
+          bytesSent: 0,
+          bytesReceived: 3,
+        },
+        { operation: "has", hits: 0, misses: 1 },
+      ])
+      expect(events[0].duration).toBeGreaterThanOrEqual(0)
+      expect(events[0].startTime).toBeLessThanOrEqual(Date.now())
+    })
+
+    test("should aggregate the operations by namespace in stats()", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-stats",
+        metrics: { latencyBuckets: [10_000] },
+      })
+
+      await keyvUpstash.set("foo", "bar")
+      await keyvUpstash.get("foo")
+      await keyvUpstash.get("foo")
+      await keyvUpstash.get("missing")
+      keyvUpstash.namespace = undefined
+      await keyvUpstash.get("foo")
+
+      const stats = keyvUpstash.stats()
+      expect(Object.keys(stats)).toEqual(["ns-stats", ""])
+      expect(stats["ns-stats"].get).toMatchObject({
+        count: 3,
+        errors: 0,
+        hits: 2,
+        misses: 1,
+        hitRatio: 2 / 3,
+        bytesReceived: 6,
+        latency: { buckets: [10_000], counts: [3, 0] },
+      })
+      expect(stats["ns-stats"].set).toMatchObject({ count: 1, bytesSent: 3 })
+      expect(stats[""].get).toMatchObject({ count: 1, hits: 0, misses: 1 })
+
+      keyvUpstash.metrics.reset()
+      expect(keyvUpstash.stats()).toEqual({})
+    })
+
+    test("should count the operations within getOrSet as part of it", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-get-or-set" })
+      const events: KeyvUpstashOperationEvent[] = []
+      keyvUpstash.on("operation-end", (event) => events.push(event))
+
+      await keyvUpstash.getOrSet("foo", () => "bar")
+
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        operation: "getOrSet",
+        keys: ["foo"],
+        misses: 2,
+        bytesSent: 3,
+      })
+    })
+
+    test("should count the hits of the memory cache", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-memory-metrics",
+        memoryCache: true,
+      })
+
+      await keyvUpstash.set("foo", "bar")
+      await keyvUpstash.get("foo")
+      await keyvUpstash.get("foo")
+      await keyvUpstash.has("foo")
+      await keyvUpstash.hasMany(["foo", "missing"])
+
+      const stats = keyvUpstash.stats()["ns-memory-metrics"]
+      expect(stats.get).toMatchObject({ count: 2, hits: 2 })
+      expect(stats.has).toMatchObject({ count: 1, hits: 1 })
+      expect(stats.hasMany).toMatchObject({ count: 1, hits: 1, misses: 1 })
+    })
+
+    test("should record failed operations", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      const error = new Error("Service unavailable")
+      vi.spyOn(keyvUpstash.client, "get").mockRejectedValue(error)
+      vi.spyOn(keyvUpstash.client, "eval").mockRejectedValue(error)
+      const events: KeyvUpstashOperationEvent[] = []
+      keyvUpstash.on("error", () => {})
+      keyvUpstash.on("operation-end", (event) => events.push(event))
+
+      await keyvUpstash.get("foo")
+      await expect(keyvUpstash.invalidateTags(["tag"])).rejects.toBe(error)
+
+      expect(events).toMatchObject([
+        { operation: "get", error },
+        { operation: "invalidateTags", error },
+      ])
+      expect(keyvUpstash.stats()[""].get.errors).toBe(1)
+    })
+
+    test("should create a span for every operation with traceKeyvUpstash", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-tracing",
+        enableAutoPipelining: false,
+      })
+      const span = {
+        recordException: vi.fn(),
+        setStatus: vi.fn(),
+        end: vi.fn(),
+      }
+      const tracer = { startSpan: vi.fn(() => span) }
+      const stop = traceKeyvUpstash(keyvUpstash, tracer)
+
+      await keyvUpstash.set("foo", "bar")
+      const error = new Error("Service unavailable")
+      vi.spyOn(keyvUpstash.client, "get").mockRejectedValueOnce(error)
+      await expect(keyvUpstash.get("foo")).rejects.toBe(error)
+      stop()
+      await keyvUpstash.get("foo")
+
+      expect(tracer.startSpan).toHaveBeenCalledTimes(2)
+      expect(tracer.startSpan).toHaveBeenCalledWith("keyv-upstash set", {
+        kind: 2,
+        startTime: expect.any(Number),
+        attributes: {
+          "db.system": "redis",
+          "db.operation.name": "set",
+          "keyv.namespace": "ns-tracing",
+          "keyv.key_count": 1,
+          "keyv.hits": 0,
+          "keyv.misses": 0,
+          "keyv.bytes_sent": 3,
+          "keyv.bytes_received": 0,
+        },
+      })
+      expect(span.recordException).toHaveBeenCalledWith(error)
+      expect(span.setStatus).toHaveBeenCalledWith({
+        code: 2,
+        message: "Service unavailable",
+      })
+      expect(span.end).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("KeyvUpstash Counters", () => {
+    test.each(["string", "hash"] as const)(
+      "should increment and decrement counters with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-counters",
+          storage,
+        })
+
+        expect(await keyvUpstash.increment("hits")).toBe(1)
+        expect(await keyvUpstash.increment("hits", 4)).toBe(5)
+        expect(await keyvUpstash.decrement("hits", 2)).toBe(3)
+        expect(await keyvUpstash.decrement("other")).toBe(-1)
+        expect(await keyvUpstash.increment("price", 1.5)).toBe(1.5)
+        expect(await keyvUpstash.increment("price", 0.25)).toBe(1.75)
+        expect(await keyvUpstash.get("hits")).toBe("3")
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should only set the TTL when the counter is created with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-counter-ttl",
+          storage,
+        })
+
+        await keyvUpstash.increment("hits", 1, { ttl: 100 })
+        await delay(60)
+        await keyvUpstash.increment("hits", 1, { ttl: 100 })
+        await delay(60)
+
+        expect(await keyvUpstash.get("hits")).toBeUndefined()
+        expect(await keyvUpstash.increment("hits", 1, { ttl: 100 })).toBe(1)
+      }
+    )
+
+    test("should use the default TTL", async () => {
+      const keyvUpstash = createKeyvUpstash({ defaultTtl: 1000 })
+
+      await keyvUpstash.increment("hits")
+
+      const ttl = await keyvUpstash.client.pttl("hits")
+      expect(ttl).toBeGreaterThan(0)
+      expect(ttl).toBeLessThanOrEqual(1000)
+    })
+
+    test("should increment many counters atomically", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-counters-many",
+        useIndex: true,
+      })
+
+      expect(
+        await keyvUpstash.incrementMany([
+          { key: "a" },
+          { key: "b", by: 3, ttl: 1000 },
+          { key: "a", by: -5 },
+        ])
+      ).toEqual([1, 3, -4])
+      expect(await keyvUpstash.incrementMany([])).toEqual([])
+
+      const keys = []
+      for await (const [key] of keyvUpstash.iterator("ns-counters-many")) {
+        keys.push(key)
+      }
+      expect(keys.sort()).toEqual(["a", "b"])
+    })
+
+    test("should invalidate counters in the memory cache", async () => {
+      const keyvUpstash = createKeyvUpstash({ memoryCache: true })
+
+      await keyvUpstash.increment("hits")
+      expect(await keyvUpstash.get("hits")).toBe("1")
+      await keyvUpstash.increment("hits")
+
+      expect(await keyvUpstash.get("hits")).toBe("2")
+    })
+
+    test("should not retry increments", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        retryPolicy: { minDelay: 1 },
+        enableAutoPipelining: false,
+      })
+      const evalSpy = vi
+        .spyOn(keyvUpstash.client, "eval")
+        .mockRejectedValue(new Error("Service unavailable"))
+
+      await expect(keyvUpstash.increment("hits")).rejects.toThrow("unavailable")
+      expect(evalSpy).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("KeyvUpstash TTL", () => {
+    test.each(["string", "hash"] as const)(
+      "should get the remaining TTL of keys with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({ namespace: "ns-ttl", storage })
+
+        await keyvUpstash.set("foo", "bar", 1000)
+        await keyvUpstash.set("forever", "bar")
+
+        const ttl = await keyvUpstash.getTtl("foo")
+        expect(ttl).toBeGreaterThan(0)
+        expect(ttl).toBeLessThanOrEqual(1000)
+        expect(await keyvUpstash.getTtl("forever")).toBe(Infinity)
+        expect(await keyvUpstash.getTtl("missing")).toBeUndefined()
+
+        const entry = await keyvUpstash.getWithTtl("foo")
+        expect(entry.value).toBe("bar")
+        expect(entry.ttl).toBeGreaterThan(0)
+        expect(entry.ttl).toBeLessThanOrEqual(1000)
+        expect(
+          await keyvUpstash.getManyWithTtl(["forever", "missing"])
+        ).toEqual([{ value: "bar", ttl: Infinity }, { value: undefined }])
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should touch and persist keys with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-touch",
+          storage,
+        })
+
+        await keyvUpstash.set("foo", "bar", 100)
+        await keyvUpstash.set("baz", "qux", 100)
+        expect(await keyvUpstash.touch("foo", 5000)).toBe(true)
+        expect(await keyvUpstash.persist("baz")).toBe(true)
+        expect(await keyvUpstash.touch("missing", 5000)).toBe(false)
+        expect(await keyvUpstash.persist("missing")).toBe(false)
+        await delay(150)
+
+        expect(await keyvUpstash.get("foo")).toBe("bar")
+        expect(await keyvUpstash.getTtl("foo")).toBeGreaterThan(4000)
+        expect(await keyvUpstash.getTtl("baz")).toBe(Infinity)
+        expect(await keyvUpstash.has("missing")).toBe(false)
+      }
+    )
+
+    test("should keep the namespace index up to date when touching keys", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-touch-index",
+        useIndex: true,
+      })
+
+      await keyvUpstash.set("foo", "bar", 100)
+      await keyvUpstash.touch("foo", 5000)
+      await delay(150)
+
+      const keys = []
+      for await (const [key] of keyvUpstash.iterator("ns-touch-index")) {
+        keys.push(key)
+      }
+      expect(keys).toEqual(["foo"])
+    })
+
+    test.each(["string", "hash"] as const)(
+      "should restore the TTL of values read with slidingExpiration with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-sliding",
+          storage,
+          slidingExpiration: true,
+        })
+
+        await keyvUpstash.set("foo", "bar", 200)
+        await keyvUpstash.set("forever", "bar")
+        for (let i = 0; i < 3; i++) {
+          await delay(100)
+          expect(await keyvUpstash.get("foo")).toBe("bar")
+        }
+        expect(await keyvUpstash.getMany(["foo", "forever"])).toEqual([
+          "bar",
+          "bar",
+        ])
+        expect(await keyvUpstash.getTtl("forever")).toBe(Infinity)
+
+        await delay(250)
+        expect(await keyvUpstash.get("foo")).toBeUndefined()
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should restore the TTL of values read from the memory cache with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-sliding-memory",
+          storage,
+          memoryCache: { ttl: 1000 },
+          slidingExpiration: true,
+        })
+
+        await keyvUpstash.set("foo", "bar", 200)
+        expect(await keyvUpstash.get("foo")).toBe("bar")
+        for (let i = 0; i < 3; i++) {
+          await delay(100)
+          expect(await keyvUpstash.getMany(["foo", "missing"])).toEqual([
+            "bar",
+            undefined,
+          ])
+        }
+
+        expect(await keyvUpstash.getTtl("foo")).toBeGreaterThan(0)
+      }
+    )
+
+    test("should restore the default TTL of values set without metadata", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-sliding-default",
+        defaultTtl: 5000,
+      })
+      await keyvUpstash.set("foo", "bar", 100)
+
+      const sliding = createKeyvUpstash({
+        namespace: "ns-sliding-default",
+        defaultTtl: 5000,
+        slidingExpiration: true,
+      })
+      expect(await sliding.get("foo")).toBe("bar")
+
+      expect(await sliding.getTtl("foo")).toBeGreaterThan(4000)
+    })
+
+    test("should restore the TTL of values read from the namespace index and the memory cache", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-sliding-index",
+        useIndex: true,
+        memoryCache: { ttl: 50 },
+        slidingExpiration: true,
+      })
+
+      await keyvUpstash.set("foo", "bar", 200)
+      await delay(150)
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      await delay(150)
+
+      const keys = []
+      for await (const [key] of keyvUpstash.iterator("ns-sliding-index")) {
+        keys.push(key)
+      }
+      expect(keys).toEqual(["foo"])
+    })
+  })
+
+  describe("KeyvUpstash Conditional Writes", () => {
+    test.each(["string", "hash"] as const)(
+      "should only set absent or present keys with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-conditional",
+          storage,
+        })
+
+        expect(
+          await keyvUpstash.set("foo", "bar", undefined, { mode: "xx" })
+        ).toBe(false)
+        expect(await keyvUpstash.get("foo")).toBeUndefined()
+        expect(
+          await keyvUpstash.set("foo", "bar", undefined, { mode: "nx" })
+        ).toBe(true)
+        expect(
+          await keyvUpstash.set("foo", "baz", undefined, { mode: "nx" })
+        ).toBe(false)
+        expect(await keyvUpstash.get("foo")).toBe("bar")
+        expect(await keyvUpstash.set("foo", "baz", 5000, { mode: "xx" })).toBe(
+          true
+        )
+        expect(await keyvUpstash.get("foo")).toBe("baz")
+        expect(await keyvUpstash.getTtl("foo")).toBeGreaterThan(4000)
+        expect(await keyvUpstash.set("foo", "qux")).toBe(true)
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should treat expired keys as absent with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-conditional-expired",
+          storage,
+        })
+
+        await keyvUpstash.set("foo", "bar", 100)
+        await delay(150)
+
+        expect(
+          await keyvUpstash.set("foo", "baz", undefined, { mode: "xx" })
+        ).toBe(false)
+        expect(
+          await keyvUpstash.set("foo", "baz", undefined, { mode: "nx" })
+        ).toBe(true)
+        expect(await keyvUpstash.get("foo")).toBe("baz")
+        expect(await keyvUpstash.getTtl("foo")).toBe(Infinity)
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should report which entries were set by setMany with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-conditional-many",
+          storage,
+        })
+        await keyvUpstash.set("foo1", "bar1")
+
+        expect(
+          await keyvUpstash.setMany([
+            { key: "foo1", value: "baz1", mode: "nx" },
+            { key: "foo2", value: "baz2", mode: "nx" },
+            { key: "foo3", value: "baz3", mode: "xx" },
+            { key: "foo4", value: "baz4" },
+          ])
+        ).toEqual([false, true, false, true])
+        expect(
+          await keyvUpstash.getMany(["foo1", "foo2", "foo3", "foo4"])
+        ).toEqual(["bar1", "baz2", undefined, "baz4"])
+      }
+    )
+
+    test("should only index and tag the values that were set", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-conditional-effects",
+        useIndex: true,
+      })
+      await keyvUpstash.set("foo1", "bar1")
+
+      await keyvUpstash.setMany([
+        { key: "foo1", value: "baz1", mode: "nx", tags: ["a"] },
+        { key: "foo2", value: "baz2", mode: "nx", tags: ["a"] },
+        { key: "foo3", value: "baz3", mode: "xx", tags: ["a"] },
+      ])
+
+      const keys = []
+      for await (const [key] of keyvUpstash.iterator(
+        "ns-conditional-effects"
+      )) {
+        keys.push(key)
+      }
+      expect(keys.sort()).toEqual(["foo1", "foo2"])
+
+      expect(await keyvUpstash.invalidateTags(["a"])).toBe(1)
+      expect(await keyvUpstash.get("foo1")).toBe("bar1")
+      expect(await keyvUpstash.get("foo2")).toBeUndefined()
+    })
+
+    test.each(["string", "hash"] as const)(
+      "should index and tag conditional writes atomically with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-conditional-atomic",
+          useIndex: true,
+          storage,
+          enableAutoPipelining: false,
+        })
+        const multi = vi.spyOn(keyvUpstash.client, "multi")
+
+        expect(
+          await keyvUpstash.set("foo", "bar", undefined, {
+            mode: "nx",
+            tags: ["a"],
+          })
+        ).toBe(true)
+        expect(multi).toHaveBeenCalledTimes(1)
+
+        const keys = []
+        for await (const [key] of keyvUpstash.iterator(
+          "ns-conditional-atomic"
+        )) {
+          keys.push(key)
+        }
+        expect(keys).toEqual(["foo"])
+        expect(await keyvUpstash.invalidateTags(["a"])).toBe(1)
+        expect(await keyvUpstash.get("foo")).toBeUndefined()
+      }
+    )
+
+    test.each(["string", "hash"] as const)(
+      "should compare and set values with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-cas",
+          storage,
+        })
+
+        expect(await keyvUpstash.compareAndSet("foo", "qux", "bar")).toBe(false)
+        expect(await keyvUpstash.compareAndSet("foo", undefined, "bar")).toBe(
+          true
+        )
+        expect(await keyvUpstash.compareAndSet("foo", undefined, "baz")).toBe(
+          false
+        )
+        expect(await keyvUpstash.compareAndSet("foo", "bar", "baz", 5000)).toBe(
+          true
+        )
+        expect(await keyvUpstash.get("foo")).toBe("baz")
+        expect(await keyvUpstash.getTtl("foo")).toBeGreaterThan(4000)
+        expect(await keyvUpstash.compareAndSet("foo", "bar", "qux")).toBe(false)
+      }
+    )
+
+    test("should not overwrite a value changed between the compare and the set", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-cas-race",
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.set("foo", "bar")
+
+      const other = createKeyvUpstash({ namespace: "ns-cas-race" })
+      const get = keyvUpstash.client.get.bind(keyvUpstash.client)
+      vi.spyOn(keyvUpstash.client, "get").mockImplementationOnce(
+        async (key) => {
+          const value = await get(key)
+          await other.set("foo", "qux")
+          return value
+        }
+      )
+
+      expect(await keyvUpstash.compareAndSet("foo", "bar", "baz")).toBe(false)
+      expect(await keyvUpstash.get("foo")).toBe("qux")
+    })
+
+    test.each(["string", "hash"] as const)(
+      "should increment versions with %s storage",
+      async (storage) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns-version",
+          storage,
+        })
+
+        expect(await keyvUpstash.getWithVersion("foo")).toEqual({
+          value: undefined,
+          version: 0,
+        })
+        expect(await keyvUpstash.setIfVersion("foo", "bar", 1)).toBe(false)
+        expect(await keyvUpstash.setIfVersion("foo", "bar", 0)).toBe(true)
+        expect(await keyvUpstash.getWithVersion("foo")).toEqual({
+          value: "bar",
+          version: 1,
+        })
+        expect(await keyvUpstash.setIfVersion("foo", "baz", 1)).toBe(true)
+        expect(await keyvUpstash.setIfVersion("foo", "qux", 1)).toBe(false)
+        expect(await keyvUpstash.getWithVersion("foo")).toEqual({
+          value: "baz",
+          version: 2,
+        })
+
+        await keyvUpstash.set("foo", "qux")
+        expect(await keyvUpstash.getWithVersion("foo")).toEqual({
+          value: "qux",
+          version: 1,
+        })
+      }
+    )
+
+    test("should let a single concurrent writer of a version succeed", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-version-race" })
+      await keyvUpstash.setIfVersion("counter", "0", 0)
+
+      const writers = Array.from({ length: 5 }, () =>
+        createKeyvUpstash({ namespace: "ns-version-race" })
+      )
+      const versions = await Promise.all(
+        writers.map((writer) => writer.getWithVersion<string>("counter"))
+      )
+      const results = await Promise.all(
+        writers.map((writer, i) =>
+          writer.setIfVersion("counter", `${i + 1}`, versions[i].version)
+        )
+      )
+
+      expect(results.filter(Boolean)).toHaveLength(1)
+      expect(await keyvUpstash.getWithVersion("counter")).toEqual({
+        value: `${results.indexOf(true) + 1}`,
+        version: 2,
+      })
+    })
+  })
+
+  describe("KeyvUpstash Backup", () => {
+    const readExport = async (stream: AsyncIterable<string>) => {
+      let ndjson = ""
+      for await (const chunk of stream) {
+        ndjson += chunk
+      }
+
+      return ndjson
+    }
+
+    test.each(["string", "hash"] as const)(
+      "should export and import a namespace with %s storage",
+      async (storage) => {
+        const source = createKeyvUpstash({ namespace: "ns-export", storage })
+        await source.set("foo1", "bar1", 5000)
+        await source.set("foo2", "bar2")
+
+        const ndjson = await readExport(source.export())
+        const records = ndjson
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line))
+          .sort((a, b) => a.key.localeCompare(b.key))
+        expect(records).toEqual([
+          { key: "foo1", value: "bar1", pttl: expect.any(Number) },
+          { key: "foo2", value: "bar2", pttl: -1 },
+        ])
+        expect(records[0].pttl).toBeGreaterThan(4000)
+
+        const target = createKeyvUpstash({ namespace: "ns-import", storage })
+        expect(await target.import(source.export())).toEqual({
+          imported: 2,
+          skipped: 0,
+        })
+        expect(await target.getMany(["foo1", "foo2"])).toEqual(["bar1", "bar2"])
+        expect(await target.getTtl("foo1")).toBeGreaterThan(4000)
+        expect(await target.getTtl("foo2")).toBe(Infinity)
+      }
+    )
+
+    test("should keep compressed and encrypted values as they are stored", async () => {
+      const options = {
+        compression: true,
+        encryption: { keys: [{ id: "key1", key: randomBytes(32) }] },
+      }
+      const source = createKeyvUpstash({
+        namespace: "ns-export-raw",
+        ...options,
+      })
+      await source.set("foo", "bar".repeat(1000))
+
+      const ndjson = await readExport(source.export())
+      expect(ndjson).not.toContain("barbar")
+
+      const target = createKeyvUpstash({
+        namespace: "ns-import-raw",
+        ...options,
+      })
+      await target.import([ndjson])
+      expect(await target.get("foo")).toBe("bar".repeat(1000))
+    })
+
+    test("should skip existing keys and report the progress of each batch", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-import-skip",
+        clearBatchSize: 2,
+        defaultTtl: 5000,
+      })
+      await keyvUpstash.set("foo1", "existing")
+      const progressListener = vi.fn()
+      keyvUpstash.on("import-progress", progressListener)
+
+      const lines = [
+        { key: "foo1", value: "bar1", pttl: -1 },
+        { key: "foo2", value: "bar2", pttl: -1 },
+        { key: "foo3", value: "bar3", pttl: 100_000 },
+      ]
+        .map((record) => JSON.stringify(record))
+        .join("\n")
+      // Lines split across chunks, as read from a file.
+      const chunks = [lines.slice(0, 10), lines.slice(10, 50), lines.slice(50)]
+      expect(
+        await keyvUpstash.import(
+          chunks.map((chunk) => Buffer.from(chunk)),
+          { mode: "skip-existing", preserveTtl: false }
+        )
+      ).toEqual({ imported: 2, skipped: 1 })
+
+      expect(progressListener.mock.calls).toEqual([
+        [{ imported: 1, skipped: 1 }],
+        [{ imported: 2, skipped: 1 }],
+      ])
+      expect(await keyvUpstash.getMany(["foo1", "foo2", "foo3"])).toEqual([
+        "existing",
+        "bar2",
+        "bar3",
+      ])
+      expect(await keyvUpstash.getTtl("foo2")).toBeLessThanOrEqual(5000)
+      expect(await keyvUpstash.getTtl("foo3")).toBeLessThanOrEqual(5000)
+    })
+
+    test("should reject invalid records", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-import-invalid" })
+
+      await expect(
+        keyvUpstash.import([
+          '{"key":"foo1","value":"bar1","pttl":-1}\n\n{"key":"foo2"}\n',
+        ])
+      ).rejects.toThrow("Invalid export record on line 3")
+      await expect(keyvUpstash.import(["not json"])).rejects.toThrow(
+        "Invalid export record on line 1"
+      )
+    })
+  })
+
+  describe("KeyvUpstash Namespace Migration", () => {
+    test("should change the separator of a namespace and keep the TTLs", async () => {
+      const old = createKeyvUpstash({
+        namespace: "ns-migrate",
+        useIndex: true,
+      })
+      await old.set("foo1", "bar1", 5000)
+      await old.set("foo2", "bar2")
+
+      expect(
+        await old.migrateNamespace({
+          from: { namespace: "ns-migrate" },
+          to: { namespace: "ns-migrate", separator: ":" },
+        })
+      ).toEqual({ migrated: 2, skipped: 0, ignored: 0 })
+      expect(await old.getMany(["foo1", "foo2"])).toEqual([
+        undefined,
+        undefined,
+      ])
+
+      const migrated = createKeyvUpstash({
+        namespace: "ns-migrate",
+        keyPrefixSeparator: ":",
+        useIndex: true,
+      })
+      expect(await migrated.getMany(["foo1", "foo2"])).toEqual(["bar1", "bar2"])
+      expect(await migrated.getTtl("foo1")).toBeGreaterThan(4000)
+      expect(await migrated.getTtl("foo2")).toBe(Infinity)
+
+      const keys = []
+      for await (const key of migrated.keys()) {
+        keys.push(key)
+      }
+      expect(keys.sort()).toEqual(["foo1", "foo2"])
+    })
+
+    test("should move the parts of large values with them", async () => {
+      const largeValues = { threshold: 100, partSize: 40 }
+      const value = "a".repeat(150)
+      const source = createKeyvUpstash({
+        namespace: "ns-migrate-large",
+        largeValues,
+      })
+      await source.set("foo", value, 5000)
+      await source.set("bar", value)
+      const target = createKeyvUpstash({
+        namespace: "ns-migrate-large2",
+        keyPrefixSeparator: ":",
+        largeValues,
+      })
+      await target.set("bar", "b".repeat(150))
+      const replacedParts = await target.client.keys(
+        "ns-migrate-large2:__keyv_upstash:part:*"
+      )
+      expect(replacedParts).toHaveLength(4)
+
+      expect(
+        await source.migrateNamespace({
+          from: { namespace: "ns-migrate-large" },
+          to: { namespace: "ns-migrate-large2", separator: ":" },
+          overwrite: true,
+        })
+      ).toEqual({ migrated: 2, skipped: 0, ignored: 0 })
+      await source.clear()
+
+      expect(await target.getMany(["foo", "bar"])).toEqual([value, value])
+      expect(await target.getTtl("foo")).toBeGreaterThan(4000)
+      const parts = await target.client.keys("ns-migrate-large2:*part*")
+      expect(parts).toHaveLength(8)
+      for (const part of parts) {
+        expect(part).toMatch(/^ns-migrate-large2:__keyv_upstash:part:[^:]+:\d$/)
+      }
+      expect(await target.client.keys("ns-migrate-large::*")).toEqual([])
+    })
+
+    test("should report the keys to move in a dry run", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-migrate-dry" })
+      await keyvUpstash.set("foo", "bar")
+      const progressListener = vi.fn()
+      keyvUpstash.on("migration-progress", progressListener)
+
+      expect(
+        await keyvUpstash.migrateNamespace({
+          from: { namespace: "ns-migrate-dry" },
+          to: { namespace: "ns-migrate-dry-2" },
+          dryRun: true,
+        })
+      ).toEqual({ migrated: 1, skipped: 0, ignored: 0 })
+      expect(progressListener).toHaveBeenCalledWith({
+        migrated: 1,
+        skipped: 0,
+        ignored: 0,
+        renamed: [{ from: "ns-migrate-dry::foo", to: "ns-migrate-dry-2::foo" }],
+      })
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+    })
+
+    test("should skip or overwrite the keys that already exist", async () => {
+      const source = createKeyvUpstash({ namespace: "ns-migrate-src" })
+      const target = createKeyvUpstash({ namespace: "ns-migrate-dst" })
+      await source.setMany([
+        { key: "foo1", value: "bar1" },
+        { key: "foo2", value: "bar2" },
+      ])
+      await target.set("foo1", "existing")
+      const options = {
+        from: { namespace: "ns-migrate-src" },
+        to: { namespace: "ns-migrate-dst" },
+      }
+
+      expect(await source.migrateNamespace(options)).toEqual({
+        migrated: 1,
+        skipped: 1,
+        ignored: 0,
+      })
+      expect(await target.getMany(["foo1", "foo2"])).toEqual([
+        "existing",
+        "bar2",
+      ])
+      expect(await source.get("foo1")).toBe("bar1")
+
+      expect(
+        await source.migrateNamespace({ ...options, overwrite: true })
+      ).toEqual({ migrated: 1, skipped: 0, ignored: 0 })
+      expect(await target.get("foo1")).toBe("bar1")
+    })
+
+    test("should resume an interrupted migration", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-resume",
+        keyPrefixSeparator: ":",
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.setMany(
+        Array.from({ length: 10 }, (_, i) => ({
+          key: `foo${i}`,
+          value: `${i}`,
+        }))
+      )
+      const options = {
+        from: { namespace: "ns-resume" },
+        to: { namespace: "ns-resume", separator: "::" },
+        batchSize: 2,
+      }
+
+      // The second batch fails.
+      const evalScript = keyvUpstash.client.eval.bind(keyvUpstash.client)
+      const evalSpy = vi
+        .spyOn(keyvUpstash.client, "eval")
+        .mockImplementationOnce(evalScript)
+        .mockRejectedValueOnce(new Error("interrupted"))
+      await expect(keyvUpstash.migrateNamespace(options)).rejects.toThrow(
+        "interrupted"
+      )
+      evalSpy.mockRestore()
+
+      // Keys named "ns-resume::foo" also match "ns-resume:*", but the ones moved by the first run are not moved again.
+      const { migrated } = await keyvUpstash.migrateNamespace(options)
+      expect(migrated).toBeLessThan(10)
+      expect(await keyvUpstash.client.keys("ns-resume:foo*")).toEqual([])
+      expect(await keyvUpstash.client.keys("ns-resume:::*")).toEqual([])
+
+      const migratedStore = createKeyvUpstash({ namespace: "ns-resume" })
+      const keys = []
+      for await (const key of migratedStore.keys()) {
+        keys.push(key)
+      }
+      expect(keys).toHaveLength(10)
+    })
+
+    test("should rename the namespace hash in hash storage", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-migrate-hash",
+        storage: "hash",
+      })
+      await keyvUpstash.set("foo1", "bar1", 5000)
+      await keyvUpstash.set("foo2", "bar2")
+
+      expect(
+        await keyvUpstash.migrateNamespace({
+          from: { namespace: "ns-migrate-hash" },
+          to: { namespace: "ns-migrate-hash-2" },
+        })
+      ).toEqual({ migrated: 2, skipped: 0, ignored: 0 })
+
+      const migrated = createKeyvUpstash({
+        namespace: "ns-migrate-hash-2",
+        storage: "hash",
+      })
+      expect(await migrated.getMany(["foo1", "foo2"])).toEqual(["bar1", "bar2"])
+      expect(await migrated.getTtl("foo1")).toBeGreaterThan(4000)
+      expect(await keyvUpstash.get("foo1")).toBeUndefined()
+    })
+
+    test("should migrate the keys of a namespace to a namespace that extends it", async () => {
+      const keyvUpstash = createKeyvUpstash({ namespace: "ns-extend" })
+      await keyvUpstash.setMany([
+        { key: "foo", value: "bar" },
+        { key: "v2::bar", value: "baz" },
+      ])
+
+      expect(
+        await keyvUpstash.migrateNamespace({
+          from: { namespace: "ns-extend" },
+          to: { namespace: "ns-extend::v2" },
+        })
+      ).toEqual({ migrated: 2, skipped: 0, ignored: 0 })
+
+      const migrated = createKeyvUpstash({ namespace: "ns-extend::v2" })
+      expect(await migrated.getMany(["foo", "v2::bar"])).toEqual(["bar", "baz"])
+      expect(
+        await keyvUpstash.client.exists(
+          "ns-extend::v2::__keyv_upstash::migrated"
+        )
+      ).toBe(0)
+    })
+
+    test("should report the keys of other namespaces when migrating keys without a namespace", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      await keyvUpstash.set("foo", "bar")
+      await keyvUpstash.client.set("ns-other::foo", "baz")
+
+      expect(
+        await keyvUpstash.migrateNamespace({
+          from: {},
+          to: { namespace: "ns-from-root" },
+        })
+      ).toEqual({ migrated: 1, skipped: 0, ignored: 1 })
+      expect(await keyvUpstash.client.get("ns-from-root::foo")).toBe("bar")
+      expect(await keyvUpstash.client.get("ns-other::foo")).toBe("baz")
+    })
+
+    test("should not migrate a namespace to itself", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      await expect(
+        keyvUpstash.migrateNamespace({
+          from: { namespace: "ns" },
+          to: { namespace: "ns", separator: "::" },
+        })
+      ).rejects.toThrow(
+        "The source and the target of the migration are the same"
+      )
+    })
+  })
+
+  describe("KeyvUpstash Read Replicas", () => {
+    const replicaConfig = {
+      url: "http://localhost:8079",
+      token: "example_token",
+    }
+
+    const createWithReplica = (
+      readReplicas: Partial<KeyvUpstashReadReplicasOptions> = {}
+    ) => {
+      const keyvUpstash = createKeyvUpstash({
+        enableAutoPipelining: false,
+        readReplicas: { replicas: [replicaConfig], ...readReplicas },
+      })
+      const replica = keyvUpstash.readReplicas!.options.replicas[0] as Redis
+
+      return { keyvUpstash, replica }
+    }
+
+    test("should be disabled without replicas", () => {
+      expect(createKeyvUpstash().readReplicas).toBeUndefined()
+      expect(
+        createKeyvUpstash({ readReplicas: { replicas: [] } }).readReplicas
+      ).toBeUndefined()
+    })
+
+    test("should keep the clients passed as replicas", () => {
+      const client = createUpstash()
+      const keyvUpstash = createKeyvUpstash({
+        readReplicas: { replicas: [client] },
+      })
+
+      expect(keyvUpstash.readReplicas?.options).toEqual({
+        replicas: [client],
+        readYourWrites: 0,
+        cooldown: 10_000,
+      })
+      expect(keyvUpstash.opts.readReplicas).toBe(
+        keyvUpstash.readReplicas?.options
+      )
+    })
+
+    test("should send reads to the replica and writes to the primary", async () => {
+      const { keyvUpstash, replica } = createWithReplica()
+      const replicaSet = vi.spyOn(replica, "set")
+      const replicaGet = vi.spyOn(replica, "get")
+      const replicaMget = vi.spyOn(replica, "mget")
+      const replicaExists = vi.spyOn(replica, "exists")
+      const primaryGet = vi.spyOn(keyvUpstash.client, "get")
+
+      await keyvUpstash.set("foo1", "bar1")
+      await keyvUpstash.set("foo2", "bar2")
+
+      expect(await keyvUpstash.get("foo1")).toBe("bar1")
+      expect(await keyvUpstash.getMany(["foo1", "foo2"])).toEqual([
+        "bar1",
+        "bar2",
+      ])
+      expect(await keyvUpstash.has("foo1")).toBe(true)
+      expect(replicaSet).not.toHaveBeenCalled()
+      expect(replicaGet).toHaveBeenCalledWith("foo1")
+      expect(replicaMget).toHaveBeenCalledWith(["foo1", "foo2"])
+      expect(replicaExists).toHaveBeenCalledWith("foo1")
+      expect(primaryGet).not.toHaveBeenCalled()
+
+      const entries = []
+      for await (const entry of keyvUpstash.iterator()) {
+        entries.push(entry)
+      }
+      expect(entries.sort()).toEqual([
+        ["foo1", "bar1"],
+        ["foo2", "bar2"],
+      ])
+      expect(replicaMget).toHaveBeenCalledTimes(2)
+    })
+
+    test("should send the reads of other operations to the primary", async () => {
+      const { keyvUpstash, replica } = createWithReplica()
+      const replicaGet = vi.spyOn(replica, "get")
+      await keyvUpstash.set("foo", "bar", 5000)
+
+      expect(await keyvUpstash.getTtl("foo")).toBeGreaterThan(4000)
+      expect(await keyvUpstash.compareAndSet("foo", "bar", "baz")).toBe(true)
+      expect(await keyvUpstash.getWithVersion("foo")).toEqual({
+        value: "baz",
+        version: 1,
+      })
+      expect(replicaGet).not.toHaveBeenCalled()
+    })
+
+    test("should fall back to the primary and skip a replica that failed", async () => {
+      const { keyvUpstash, replica } = createWithReplica()
+      const replicaGet = vi
+        .spyOn(replica, "get")
+        .mockRejectedValueOnce(new Error("replica down"))
+      const errors: KeyvUpstashReplicaErrorEvent[] = []
+      keyvUpstash.on("replica-error", (event) => errors.push(event))
+      const failures = vi.fn()
+      keyvUpstash.on("error", failures)
+      await keyvUpstash.set("foo", "bar")
+
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(errors).toEqual([{ replica: 0, error: new Error("replica down") }])
+      expect(failures).not.toHaveBeenCalled()
+      expect(replicaGet).toHaveBeenCalledTimes(1)
+    })
+
+    test("should try a replica again after the cooldown", async () => {
+      const { keyvUpstash, replica } = createWithReplica({ cooldown: 50 })
+      const replicaGet = vi
+        .spyOn(replica, "get")
+        .mockRejectedValueOnce(new Error("replica down"))
+      keyvUpstash.on("replica-error", () => {})
+      await keyvUpstash.set("foo", "bar")
+
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      await delay(100)
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(replicaGet).toHaveBeenCalledTimes(2)
+    })
+
+    test("should send reads to the next replica while one is failing", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        enableAutoPipelining: false,
+        readReplicas: { replicas: [replicaConfig, replicaConfig] },
+      })
+      const [first, second] = keyvUpstash.readReplicas!.options
+        .replicas as Redis[]
+      vi.spyOn(first, "get").mockRejectedValue(new Error("replica down"))
+      const secondGet = vi.spyOn(second, "get")
+      keyvUpstash.on("replica-error", () => {})
+      await keyvUpstash.set("foo", "bar")
+
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(secondGet).not.toHaveBeenCalled()
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(secondGet).toHaveBeenCalledTimes(1)
+    })
+
+    test("should read from the primary after a write with readYourWrites", async () => {
+      const { keyvUpstash, replica } = createWithReplica({
+        readYourWrites: 200,
+      })
+      const replicaGet = vi.spyOn(replica, "get")
+      const primaryGet = vi.spyOn(keyvUpstash.client, "get")
+
+      await keyvUpstash.set("foo", "bar")
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(primaryGet).toHaveBeenCalledTimes(1)
+      expect(replicaGet).not.toHaveBeenCalled()
+
+      await delay(300)
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+      expect(replicaGet).toHaveBeenCalledTimes(1)
+
+      await keyvUpstash.delete("foo")
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+      expect(replicaGet).toHaveBeenCalledTimes(1)
+    })
+
+    test("should read from the primary with hash storage and sliding expiration", async () => {
+      for (const options of [
+        { storage: "hash" as const },
+        { slidingExpiration: true },
+      ]) {
+        const keyvUpstash = createKeyvUpstash({
+          ...options,
+          enableAutoPipelining: false,
+          readReplicas: { replicas: [replicaConfig] },
+        })
+        const replica = keyvUpstash.readReplicas!.options.replicas[0] as Redis
+        const replicaMulti = vi.spyOn(replica, "multi")
+        const replicaGet = vi.spyOn(replica, "get")
+        await keyvUpstash.set("foo", "bar", 5000)
+
+        expect(await keyvUpstash.get("foo")).toBe("bar")
+        expect(replicaMulti).not.toHaveBeenCalled()
+        expect(replicaGet).not.toHaveBeenCalled()
+      }
+    })
+  })
+
+  describe("KeyvUpstash Sharding", () => {
+    const shardConfig = { url: "http://localhost:8079", token: "example_token" }
+    const keys = Array.from({ length: 20 }, (_, i) => `key${i}`)
+
+    // The shards of the tests are the same database, so each shard is told apart by its client.
+    const createSharded = (
+      options: Omit<KeyvUpstashOptions, "url" | "token" | "upstashRedis"> = {}
+    ) => {
+      const keyvUpstash = createKeyvUpstash({
+        enableAutoPipelining: false,
+        sharding: { shards: [shardConfig] },
+        ...options,
+      })
+      const ring = keyvUpstash.sharding!
+      const primary = keyvUpstash.client
+      const shard = ring.client(1)
+      const primaryKeys = keys.filter((key) => ring.shardOf(key) === 0)
+      const shardKeys = keys.filter((key) => ring.shardOf(key) === 1)
+
+      return { keyvUpstash, ring, primary, shard, primaryKeys, shardKeys }
+    }
+
+    test("should be disabled without shards", () => {
+      expect(createKeyvUpstash().sharding).toBeUndefined()
+      expect(
+        createKeyvUpstash({ sharding: { shards: [] } }).sharding
+      ).toBeUndefined()
+    })
+
+    test("should resolve the sharding options", () => {
+      const client = createUpstash()
+      const keyvUpstash = createKeyvUpstash({ sharding: { shards: [client] } })
+
+      expect(keyvUpstash.sharding?.options).toEqual({
+        shards: [client],
+        virtualNodes: 160,
+        hashTags: true,
+      })
+      expect(keyvUpstash.sharding?.size).toBe(2)
+      expect(keyvUpstash.opts.sharding).toBe(keyvUpstash.sharding?.options)
+    })
+
+    test("should not allow read replicas with sharding", () => {
+      expect(() =>
+        createKeyvUpstash({
+          sharding: { shards: [shardConfig] },
+          readReplicas: { replicas: [shardConfig] },
+        })
+      ).toThrow("Read replicas cannot be used with sharding")
+    })
+
+    test("should spread the keys evenly and only move keys to an added shard", () => {
+      const clients = [createUpstash(), createUpstash(), createUpstash()]
+      const ring = new KeyvUpstashShardRing({
+        shards: clients.slice(0, 2),
+        virtualNodes: 160,
+        hashTags: true,
+      })
+      const grown = new KeyvUpstashShardRing({
+        shards: clients,
+        virtualNodes: 160,
+        hashTags: true,
+      })
+
+      const counts = [0, 0, 0]
+      for (let i = 0; i < 3000; i++) {
+        const key = `key${i}`
+        const shard = ring.shardOf(key)
+        counts[shard]++
+
+        const newShard = grown.shardOf(key)
+        expect([shard, 3]).toContain(newShard)
+      }
+      for (const count of counts) {
+        expect(count).toBeGreaterThan(700)
+        expect(count).toBeLessThan(1300)
+      }
+    })
+
+    test("should store keys with the same hash tag in the same shard", () => {
+      expect(getHashTag("{user:1}:profile")).toBe("user:1")
+      expect(getHashTag("profile:{user:1}")).toBe("user:1")
+      expect(getHashTag("{}:profile")).toBe("{}:profile")
+      expect(getHashTag("{user:1:profile")).toBe("{user:1:profile")
+      expect(getHashTag("user:1")).toBe("user:1")
+
+      const { ring } = createSharded()
+      for (let i = 0; i < 20; i++) {
+        expect(ring.shardOf(`{user:${i}}:profile`)).toBe(
+          ring.shardOf(`{user:${i}}:settings`)
+        )
+      }
+
+      const { ring: untagged } = createSharded({
+        sharding: { shards: [shardConfig], hashTags: false },
+      })
+      expect(
+        Array.from({ length: 20 }, (_, i) => i).some(
+          (i) =>
+            untagged.shardOf(`{user:${i}}:profile`) !==
+            untagged.shardOf(`{user:${i}}:settings`)
+        )
+      ).toBe(true)
+    })
+
+    test("should send the commands of a key to its shard", async () => {
+      const { keyvUpstash, primary, shard, primaryKeys, shardKeys } =
+        createSharded()
+      const primarySet = vi.spyOn(primary, "set")
+      const shardSet = vi.spyOn(shard, "set")
+      const shardGet = vi.spyOn(shard, "get")
+
+      await keyvUpstash.set(primaryKeys[0], "bar1")
+      await keyvUpstash.set(shardKeys[0], "bar2", 5000)
+
+      expect(primarySet).toHaveBeenCalledTimes(1)
+      expect(primarySet).toHaveBeenCalledWith(primaryKeys[0], "bar1")
+      expect(shardSet).toHaveBeenCalledTimes(1)
+      expect(await keyvUpstash.get(shardKeys[0])).toBe("bar2")
+      expect(shardGet).toHaveBeenCalledWith(shardKeys[0])
+      expect(await keyvUpstash.getTtl(shardKeys[0])).toBeGreaterThan(4000)
+      expect(await keyvUpstash.increment(shardKeys[1])).toBe(1)
+      expect(await keyvUpstash.delete(shardKeys[0])).toBe(true)
+    })
+
+    test("should split the operations on many keys by shard", async () => {
+      const { keyvUpstash, primary, shard, primaryKeys, shardKeys } =
+        createSharded()
+      const primaryMget = vi.spyOn(primary, "mget")
+      const shardMget = vi.spyOn(shard, "mget")
+
+      expect(
+        await keyvUpstash.setMany(
+          keys.map((key) => ({ key, value: `value of ${key}` }))
+        )
+      ).toEqual(keys.map(() => true))
+      expect(await keyvUpstash.getMany(keys)).toEqual(
+        keys.map((key) => `value of ${key}`)
+      )
+      expect(primaryMget).toHaveBeenCalledWith(primaryKeys)
+      expect(shardMget).toHaveBeenCalledWith(shardKeys)
+
+      expect(await keyvUpstash.hasMany([...keys, "missing"])).toEqual([
+        ...keys.map(() => true),
+        false,
+      ])
+      expect(
+        (await keyvUpstash.getManyWithTtl(keys)).map(({ value }) => value)
+      ).toEqual(keys.map((key) => `value of ${key}`))
+      expect(
+        await keyvUpstash.incrementMany([
+          { key: "counter1", by: 2 },
+          { key: "counter2", by: 3 },
+        ])
+      ).toEqual([2, 3])
+      expect(await keyvUpstash.deleteMany(keys)).toBe(true)
+      expect(await keyvUpstash.getMany(keys)).toEqual(keys.map(() => undefined))
+    })
+
+    test("should batch the reads of each shard separately", async () => {
+      const { keyvUpstash, primary, shard, primaryKeys, shardKeys } =
+        createSharded({ batching: true })
+      await keyvUpstash.setMany(keys.map((key) => ({ key, value: key })))
+      const primaryMget = vi.spyOn(primary, "mget")
+      const shardMget = vi.spyOn(shard, "mget")
+
+      expect(
+        await Promise.all(keys.map((key) => keyvUpstash.get(key)))
+      ).toEqual(keys)
+      expect(primaryMget).toHaveBeenCalledWith(primaryKeys)
+      expect(shardMget).toHaveBeenCalledWith(shardKeys)
+    })
+
+    test("should clear every shard", async () => {
+      const { keyvUpstash, primary, shard } = createSharded({
+        namespace: "ns-shard",
+      })
+      await keyvUpstash.setMany(keys.map((key) => ({ key, value: key })))
+      const primaryScan = vi.spyOn(primary, "scan")
+      const shardScan = vi.spyOn(shard, "scan")
+
+      await keyvUpstash.clear()
+
+      expect(primaryScan).toHaveBeenCalled()
+      expect(shardScan).toHaveBeenCalled()
+      expect(await keyvUpstash.getMany(keys)).toEqual(keys.map(() => undefined))
+    })
+
+    test("should only journal clear once every shard is cleared", async () => {
+      const { keyvUpstash, primary, shard } = createSharded({
+        namespace: "ns-shard-journal",
+        journal: true,
+      })
+      const xadd = vi.spyOn(primary, "xadd")
+      const error = new Error("Service unavailable")
+      vi.spyOn(shard, "scan").mockRejectedValueOnce(error)
+      const onError = vi.fn()
+      keyvUpstash.on("error", onError)
+
+      await keyvUpstash.clear()
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        operation: "clear",
+        keys: [],
+      })
+      expect(xadd).not.toHaveBeenCalled()
+
+      await keyvUpstash.clear()
+
+      expect(xadd).toHaveBeenCalledTimes(1)
+    })
+
+    test("should iterate over every shard and resume from a shard cursor", async () => {
+      const { keyvUpstash, shard } = createSharded({ namespace: "ns-shard" })
+      await keyvUpstash.setMany(keys.map((key) => ({ key, value: key })))
+      // The keys are only yielded by the primary, since the test shards share a database.
+      const shardScan = vi
+        .spyOn(shard, "scan")
+        .mockResolvedValue(["0", []] as never)
+
+      const iterator = keyvUpstash.iterator("ns-shard", { pageSize: 5 })
+      const entries = []
+      for await (const entry of iterator) {
+        entries.push(entry)
+        if (entries.length === 1) {
+          expect(iterator.cursor).toMatch(/^0:/)
+        }
+      }
+      expect(entries.map(([key]) => key).sort()).toEqual([...keys].sort())
+      expect(shardScan).toHaveBeenCalled()
+      expect(iterator.cursor).toBe("0")
+
+      const resumed = []
+      for await (const entry of keyvUpstash.iterator("ns-shard", {
+        startCursor: "1:0",
+      })) {
+        resumed.push(entry)
+      }
+      expect(resumed).toEqual([])
+    })
+
+    test("should only count the keys to move in a dry run", async () => {
+      const { keyvUpstash, shardKeys } = createSharded({
+        namespace: "ns-shard",
+      })
+      await keyvUpstash.setMany(keys.map((key) => ({ key, value: key })))
+
+      // Every key is found in both shards, since the test shards share a database.
+      expect(await keyvUpstash.rebalance({ dryRun: true })).toEqual({
+        scanned: keys.length * 2,
+        moved: keys.length,
+      })
+      expect(shardKeys.length).toBeGreaterThan(0)
+      expect(await keyvUpstash.getMany(keys)).toEqual(keys)
+    })
+
+    test("should move the keys that belong to another shard", async () => {
+      const { keyvUpstash, primary, shard, shardKeys } = createSharded({
+        namespace: "ns-shard",
+      })
+      await keyvUpstash.setMany(keys.map((key) => ({ key, value: key })))
+      // The added shard is empty, while the primary has every key.
+      vi.spyOn(shard, "scan").mockResolvedValue(["0", []] as never)
+      const shardMulti = vi.spyOn(shard, "multi")
+      const primaryUnlink = vi.spyOn(primary, "unlink")
+      const progress: KeyvUpstashRebalanceResult[] = []
+      keyvUpstash.on("rebalance-progress", (event) => progress.push(event))
+
+      const result = await keyvUpstash.rebalance({ batchSize: 5 })
+
+      expect(result).toEqual({ scanned: keys.length, moved: shardKeys.length })
+      expect(progress.at(-1)).toEqual(result)
+      expect(progress.length).toBe(Math.ceil(shardKeys.length / 5))
+      expect(shardMulti).toHaveBeenCalled()
+      expect(primaryUnlink.mock.calls.flat().sort()).toEqual(
+        shardKeys.map((key) => `ns-shard::${key}`).sort()
+      )
+    })
+
+    test("should not rebalance without sharding", async () => {
+      await expect(createKeyvUpstash().rebalance()).rejects.toThrow(
+        "Sharding is not enabled"
+      )
+    })
+  })
+
+  describe("KeyvUpstash Rate Limiting", () => {
+    test("should limit the requests of a fixed window", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const limit = {
+        algorithm: "fixed-window" as const,
+        limit: 3,
+        window: 300,
+      }
+
+      const start = Date.now()
+      const results = []
+      for (let i = 0; i < 4; i++) {
+        results.push(await keyvUpstash.rateLimit("user1", limit))
+      }
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ])
+      expect(results.map(({ remaining }) => remaining)).toEqual([2, 1, 0, 0])
+      expect(results[3].resetAt).toBeGreaterThan(start)
+      expect(results[3].resetAt).toBeLessThanOrEqual(Date.now() + 300)
+      expect((await keyvUpstash.rateLimit("user2", limit)).allowed).toBe(true)
+
+      await delay(400)
+      expect(await keyvUpstash.rateLimit("user1", limit)).toMatchObject({
+        allowed: true,
+        remaining: 2,
+      })
+    })
+
+    test("should limit the requests of a sliding window", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const limit = { limit: 2, window: 300 }
+
+      const first = await keyvUpstash.rateLimit("user", limit)
+      await delay(100)
+      const second = await keyvUpstash.rateLimit("user", limit)
+      const third = await keyvUpstash.rateLimit("user", limit)
+
+      expect(first).toMatchObject({ allowed: true, remaining: 1 })
+      expect(second).toMatchObject({ allowed: true, remaining: 0 })
+      expect(third).toMatchObject({ allowed: false, remaining: 0 })
+      expect(third.limits[0].name).toBe("sliding-window-2-300")
+      // The request is allowed again once the first request is out of the window.
+      expect(third.resetAt).toBeLessThan(second.resetAt)
+
+      await delay(Math.max(third.resetAt - Date.now(), 0) + 50)
+      expect(await keyvUpstash.rateLimit("user", limit)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      })
+    })
+
+    test("should refill a token bucket", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const limit = {
+        algorithm: "token-bucket" as const,
+        limit: 2,
+        window: 400,
+      }
+
+      expect(await keyvUpstash.rateLimit("user", limit)).toMatchObject({
+        allowed: true,
+        remaining: 1,
+      })
+      expect(await keyvUpstash.rateLimit("user", limit)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      })
+      const denied = await keyvUpstash.rateLimit("user", limit)
+      expect(denied.allowed).toBe(false)
+      // A token is added every 200 milliseconds.
+      expect(denied.resetAt - Date.now()).toBeLessThanOrEqual(200)
+
+      await delay(250)
+      expect(await keyvUpstash.rateLimit("user", limit)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      })
+    })
+
+    test("should only count a request if every limit allows it", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const limits = [
+        {
+          algorithm: "fixed-window" as const,
+          limit: 1,
+          window: 10_000,
+          name: "burst",
+        },
+        { algorithm: "token-bucket" as const, limit: 5, window: 10_000 },
+        { limit: 5, window: 10_000, name: "sustained" },
+      ]
+
+      expect(await keyvUpstash.rateLimit("user", limits)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+        limits: [
+          { name: "burst", allowed: true, remaining: 0 },
+          { name: "token-bucket-5-10000", allowed: true, remaining: 4 },
+          { name: "sustained", allowed: true, remaining: 4 },
+        ],
+      })
+
+      const denied = await keyvUpstash.rateLimit("user", limits)
+      expect(denied).toMatchObject({
+        allowed: false,
+        remaining: 0,
+        limits: [
+          { name: "burst", allowed: false, remaining: 0 },
+          { name: "token-bucket-5-10000", allowed: true, remaining: 4 },
+          { name: "sustained", allowed: true, remaining: 4 },
+        ],
+      })
+      expect(denied.resetAt).toBe(denied.limits[0].resetAt)
+    })
+
+    test("should count the cost of a request", async () => {
+      const keyvUpstash = createKeyvUpstash()
+      const limits = [
+        { algorithm: "fixed-window" as const, limit: 5, window: 10_000 },
+        { algorithm: "sliding-window" as const, limit: 5, window: 10_000 },
+        { algorithm: "token-bucket" as const, limit: 5, window: 10_000 },
+      ]
+
+      expect(
+        await keyvUpstash.rateLimit("user", limits, { cost: 3 })
+      ).toMatchObject({ allowed: true, remaining: 2 })
+      expect(
+        await keyvUpstash.rateLimit("user", limits, { cost: 0 })
+      ).toMatchObject({ allowed: true, remaining: 2 })
+      expect(
+        await keyvUpstash.rateLimit("user", limits, { cost: 3 })
+      ).toMatchObject({ allowed: false, remaining: 2 })
+      expect(
+        await keyvUpstash.rateLimit("user", limits, { cost: 2 })
+      ).toMatchObject({ allowed: true, remaining: 0 })
+    })
+
+    test("should store the limits in internal keys of the namespace", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-rate",
+        keyPrefixSeparator: ":",
+      })
+      await keyvUpstash.set("foo", "bar")
+      await keyvUpstash.rateLimit("user", {
+        algorithm: "fixed-window",
+        limit: 1,
+        window: 10_000,
+      })
+
+      expect(await keyvUpstash.client.keys("ns-rate:*")).toContain(
+        "ns-rate:__keyv_upstash:ratelimit:fixed-window-1-10000:user"
+      )
+      const keys = []
+      for await (const key of keyvUpstash.keys()) {
+        keys.push(key)
+      }
+      expect(keys).toEqual(["foo"])
+    })
+
+    test("should reject invalid limits", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      await expect(keyvUpstash.rateLimit("user", [])).rejects.toThrow(
+        "At least one rate limit is required"
+      )
+      await expect(
+        keyvUpstash.rateLimit("user", { limit: 0, window: 1000 })
+      ).rejects.toThrow("The limit of a rate limit must be a positive integer")
+      await expect(
+        keyvUpstash.rateLimit("user", { limit: 1, window: 1.5 })
+      ).rejects.toThrow("The window of a rate limit must be a positive integer")
+      await expect(
+        keyvUpstash.rateLimit("user", { limit: 1, window: 1000 }, { cost: -1 })
+      ).rejects.toThrow("The cost of a request must be a non-negative integer")
+    })
+
+    test("should allow the request if Upstash fails with failMode open", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      vi.spyOn(keyvUpstash.client, "eval").mockRejectedValue(
+        new Error("Upstash is down")
+      )
+      const errors = vi.fn()
+      keyvUpstash.on("error", errors)
+
+      expect(
+        await keyvUpstash.rateLimit("user", { limit: 2, window: 1000 })
+      ).toMatchObject({
+        allowed: true,
+        remaining: 2,
+        limits: [
+          { name: "sliding-window-2-1000", allowed: true, remaining: 2 },
+        ],
+      })
+      expect(errors).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("KeyvUpstash Change Journal", () => {
+    const readChanges = async (
+      keyvUpstash: KeyvUpstash,
+      count: number,
+      options: KeyvUpstashChangesOptions = {}
+    ) => {
+      const changes: KeyvUpstashChangeEvent[] = []
+      for await (const change of keyvUpstash.changes({
+        pollInterval: 10,
+        ...options,
+      })) {
+        changes.push(change)
+        if (changes.length === count) break
+      }
+
+      return changes
+    }
+
+    test.each(["closed", "open"] as const)(
+      "should not change the result of writes if the journal fails when %s",
+      async (failMode) => {
+        const keyvUpstash = createKeyvUpstash({
+          namespace: "ns",
+          journal: true,
+          failMode,
+          retryPolicy: true,
+          enableAutoPipelining: false,
+        })
+        const error = new Error("journal failed")
+        const xadd = vi
+          .spyOn(keyvUpstash.client, "xadd")
+          .mockRejectedValue(error)
+        const set = vi.spyOn(keyvUpstash.client, "set")
+        const onError = vi.fn()
+        keyvUpstash.on("error", onError)
+
+        expect(await keyvUpstash.set("key1", "value1")).toBe(true)
+        expect(await keyvUpstash.delete("key1")).toBe(true)
+        expect(set).toHaveBeenCalledTimes(1)
+        expect(xadd).toHaveBeenCalledTimes(2)
+        expect(onError.mock.calls).toEqual([
+          [error, { operation: "journal", keys: ["key1"] }],
+          [error, { operation: "journal", keys: ["key1"] }],
+        ])
+      }
+    )
+
+    test("should journal the changes of set, delete and clear", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns",
+        journal: { source: "instance1" },
+      })
+
+      await keyvUpstash.set("key1", "value1")
+      await keyvUpstash.setMany([
+        { key: "key2", value: "value2" },
+        { key: "key3", value: "value3" },
+      ])
+      await keyvUpstash.delete("key1")
+      await keyvUpstash.delete("missing")
+      await keyvUpstash.deleteMany(["key2", "key3"])
+      await keyvUpstash.clear()
+
+      const changes = await readChanges(keyvUpstash, 4, { since: "0" })
+      expect(
+        changes.map(({ type, keys, source }) => ({ type, keys, source }))
+      ).toEqual([
+        { type: "set", keys: ["key1"], source: "instance1" },
+        { type: "set", keys: ["key2", "key3"], source: "instance1" },
+        { type: "delete", keys: ["key1"], source: "instance1" },
+        { type: "delete", keys: ["key2", "key3"], source: "instance1" },
+      ])
+
+      const [clear] = await readChanges(keyvUpstash, 1, {
+        since: changes[3].id,
+      })
+      expect(clear).toMatchObject({ type: "clear", keys: [] })
+    })
+
+    test("should not journal writes that were not applied", async () => {
+      const keyvUpstash = createKeyvUpstash({ journal: true })
+
+      await keyvUpstash.set("key", "value")
+      await keyvUpstash.set("key", "other", undefined, { mode: "nx" })
+      await keyvUpstash.set("missing", "value", undefined, { mode: "xx" })
+      await keyvUpstash.increment("counter")
+
+      const changes = await readChanges(keyvUpstash, 2, { since: "0" })
+      expect(changes.map(({ keys }) => keys)).toEqual([["key"], ["counter"]])
+    })
+
+    test("should read the changes of other instances from the last change by default", async () => {
+      const writer = createKeyvUpstash({
+        namespace: "ns",
+        journal: { source: "writer" },
+      })
+      const reader = createKeyvUpstash({ namespace: "ns", journal: true })
+      await writer.set("old", "value")
+
+      const changes = reader.changes({ pollInterval: 10 })
+      const next = changes.next()
+      await delay(100)
+      await writer.set("new", "value")
+
+      expect((await next).value).toMatchObject({
+        type: "set",
+        keys: ["new"],
+        source: "writer",
+      })
+      await changes.return()
+    })
+
+    test("should only read the journal of its namespace", async () => {
+      const keyvUpstash1 = createKeyvUpstash({
+        namespace: "ns1",
+        journal: true,
+      })
+      const keyvUpstash2 = createKeyvUpstash({
+        namespace: "ns2",
+        journal: true,
+      })
+
+      await keyvUpstash1.set("key1", "value")
+      await keyvUpstash2.set("key2", "value")
+
+      const [change] = await readChanges(keyvUpstash2, 1, { since: "0" })
+      expect(change.keys).toEqual(["key2"])
+      expect(change.source).toBe(keyvUpstash2.journal?.source)
+      expect(change.source).not.toBe(keyvUpstash1.journal?.source)
+    })
+
+    test("should cap the journal at about maxLength changes", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        journal: { maxLength: 5 },
+        enableAutoPipelining: false,
+      })
+      const xadd = vi.spyOn(keyvUpstash.client, "xadd")
+
+      await keyvUpstash.set("key", "value")
+
+      expect(xadd).toHaveBeenCalledWith(
+        expect.stringContaining("journal"),
+        "*",
+        expect.objectContaining({ type: "set", keys: '["key"]' }),
+        { trim: { type: "MAXLEN", threshold: 5, comparison: "~" } }
+      )
+    })
+
+    test("should throw the reason of the signal when aborted", async () => {
+      const keyvUpstash = createKeyvUpstash({ journal: true })
+      const controller = new AbortController()
+
+      const next = keyvUpstash
+        .changes({ pollInterval: 1000, signal: controller.signal })
+        .next()
+      await delay(50)
+      controller.abort(new Error("Stopped"))
+
+      await expect(next).rejects.toThrow("Stopped")
+    })
+
+    test("should throw if the journal is not enabled", async () => {
+      const keyvUpstash = createKeyvUpstash()
+
+      await expect(keyvUpstash.changes().next()).rejects.toThrow(
+        "The journal is not enabled"
+      )
+      expect(keyvUpstash.opts.journal).toBeUndefined()
+    })
+  })
+
+  describe("KeyvUpstash Chunking", () => {
+    const countRequests = (keyvUpstash: KeyvUpstash, operation: string) => {
+      const requests: string[][] = []
+      keyvUpstash.on(
+        "operation-start",
+        (event: KeyvUpstashOperationStartEvent) => {
+          if (event.operation === operation) requests.push(event.keys)
+        }
+      )
+
+      return requests
+    }
+
+    test.each([{ concurrency: 0 }, { maxKeys: -1 }, { maxBytes: 1.5 }])(
+      "should not accept the chunking options %o",
+      (chunking) => {
+        const [name] = Object.keys(chunking)
+        expect(() => createKeyvUpstash({ chunking })).toThrow(
+          `The ${name} of chunking must be a positive integer`
+        )
+      }
+    )
+
+    test("should split bulk operations by number of keys", async () => {
+      const keyvUpstash = createKeyvUpstash({ chunking: { maxKeys: 2 } })
+      const keys = ["key1", "key2", "key3", "key4", "key5"]
+      const setRequests = countRequests(keyvUpstash, "setMany")
+      const getRequests = countRequests(keyvUpstash, "getMany")
+      const hasRequests = countRequests(keyvUpstash, "hasMany")
+      const deleteRequests = countRequests(keyvUpstash, "deleteMany")
+
+      expect(
+        await keyvUpstash.setMany(
+          keys.map((key) => ({ key, value: `value of ${key}` }))
+        )
+      ).toEqual([true, true, true, true, true])
+      expect(await keyvUpstash.getMany([...keys, "missing"])).toEqual([
+        "value of key1",
+        "value of key2",
+        "value of key3",
+        "value of key4",
+        "value of key5",
+        undefined,
+      ])
+      expect(await keyvUpstash.hasMany(["missing", ...keys])).toEqual([
+        false,
+        true,
+        true,
+        true,
+        true,
+        true,
+      ])
+      expect(await keyvUpstash.deleteMany(keys)).toBe(true)
+      expect(await keyvUpstash.deleteMany(keys)).toBe(false)
+
+      expect(setRequests).toEqual([
+        ["key1", "key2"],
+        ["key3", "key4"],
+        ["key5"],
+      ])
+      expect(getRequests).toHaveLength(3)
+      expect(hasRequests).toHaveLength(3)
+      expect(deleteRequests).toHaveLength(6)
+    })
+
+    test("should split bulk writes by estimated size", async () => {
+      const keyvUpstash = createKeyvUpstash({ chunking: { maxBytes: 1000 } })
+      const requests = countRequests(keyvUpstash, "setMany")
+      const large = "a".repeat(600)
+
+      await keyvUpstash.setMany([
+        { key: "key1", value: large },
+        { key: "key2", value: large },
+        { key: "key3", value: "small" },
+        { key: "key4", value: "a".repeat(2000) },
+      ])
+
+      expect(requests).toEqual([["key1"], ["key2", "key3"], ["key4"]])
+      expect(await keyvUpstash.get("key4")).toHaveLength(2000)
+    })
+
+    test("should send a single request with chunking disabled", async () => {
+      const keyvUpstash = createKeyvUpstash({ chunking: false })
+      const requests = countRequests(keyvUpstash, "getMany")
+
+      await keyvUpstash.getMany(
+        Array.from({ length: 1500 }, (_, i) => `key${i}`)
+      )
+
+      expect(requests).toHaveLength(1)
+      expect(keyvUpstash.chunking).toBeUndefined()
+      expect(createKeyvUpstash().opts.chunking).toEqual({
+        maxKeys: 1000,
+        maxBytes: 1_000_000,
+        concurrency: 4,
+      })
+    })
+
+    test("should send at most concurrency chunks at a time", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        chunking: { maxKeys: 1, concurrency: 2 },
+      })
+      let pending = 0
+      let maxPending = 0
+      keyvUpstash.on("operation-start", () => {
+        pending++
+        maxPending = Math.max(maxPending, pending)
+      })
+      keyvUpstash.on("operation-end", () => {
+        pending--
+      })
+
+      await keyvUpstash.getMany(["key1", "key2", "key3", "key4", "key5"])
+
+      expect(maxPending).toBe(2)
+    })
+
+    test("should report the keys of the chunks that failed", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        chunking: { maxKeys: 2, concurrency: 1 },
+        enableAutoPipelining: false,
+      })
+      await keyvUpstash.setMany([
+        { key: "key1", value: "value1" },
+        { key: "key3", value: "value3" },
+      ])
+      vi.spyOn(keyvUpstash.client, "mget").mockRejectedValueOnce(
+        new Error("Upstash is down")
+      )
+
+      const error: KeyvUpstashBulkError = await keyvUpstash
+        .getMany(["key1", "key2", "key3"])
+        .catch((error) => error)
+
+      expect(error).toBeInstanceOf(KeyvUpstashBulkError)
+      expect(error.message).toBe(
+        "getMany failed for 2 of 3 keys: Error: Upstash is down"
+      )
+      expect(error.operation).toBe("getMany")
+      expect(error.keys).toEqual(["key1", "key2"])
+      expect(error.errors).toHaveLength(1)
+      expect(error.results).toEqual([undefined, undefined, "value3"])
+    })
+
+    test("should emit the errors of the chunks that failed with failMode open", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        chunking: { maxKeys: 2, concurrency: 1 },
+        failMode: "open",
+        enableAutoPipelining: false,
+      })
+      const errors = vi.fn()
+      keyvUpstash.on("error", errors)
+      vi.spyOn(keyvUpstash.client, "multi").mockImplementationOnce(() => {
+        throw new Error("Upstash is down")
+      })
+
+      expect(
+        await keyvUpstash.setMany([
+          { key: "key1", value: "value1" },
+          { key: "key2", value: "value2" },
+          { key: "key3", value: "value3" },
+        ])
+      ).toEqual([false, false, true])
+      expect(errors).toHaveBeenCalledWith(expect.any(Error), {
+        operation: "setMany",
+        keys: ["key1", "key2"],
+      })
+      expect(await keyvUpstash.get("key3")).toBe("value3")
+    })
+  })
+
+  describe("KeyvUpstash Large Values", () => {
+    const largeValues = { threshold: 100, partSize: 40 }
+    const large = (char: string) => char.repeat(150)
+    const getPartKeys = async (keyvUpstash: KeyvUpstash) =>
+      (await keyvUpstash.client.keys("*::part::*")).sort()
+
+    test("should split large values into parts and join them", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-large",
+        largeValues,
+      })
+
+      expect(await keyvUpstash.set("foo", large("a"))).toBe(true)
+      await keyvUpstash.set("small", "bar")
+
+      expect(await getPartKeys(keyvUpstash)).toHaveLength(4)
+      expect(await keyvUpstash.client.get("ns-large::foo")).toMatch(
+        /^\u0000kvl:4:150:/
+      )
+      expect(await keyvUpstash.client.get("ns-large::small")).toBe("bar")
+      expect(await keyvUpstash.get("foo")).toBe(large("a"))
+      expect(await keyvUpstash.getMany(["foo", "small", "missing"])).toEqual([
+        large("a"),
+        "bar",
+        undefined,
+      ])
+    })
+
+    test("should not split multibyte characters", async () => {
+      const keyvUpstash = createKeyvUpstash({ largeValues })
+      const value = "é😀".repeat(30)
+
+      await keyvUpstash.set("foo", value)
+
+      expect(await keyvUpstash.get("foo")).toBe(value)
+    })
+
+    test("should join large values with setMany and the iterator", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-large",
+        largeValues,
+      })
+
+      expect(
+        await keyvUpstash.setMany([
+          { key: "foo", value: large("a") },
+          { key: "bar", value: large("b") },
+          { key: "baz", value: "small" },
+        ])
+      ).toEqual([true, true, true])
+
+      const entries: Array<[string, string | undefined]> = []
+      for await (const [key, value] of keyvUpstash.iterator<string>(
+        "ns-large"
+      )) {
+        entries.push([key, value])
+      }
+      expect(entries.sort()).toEqual([
+        ["bar", large("b")],
+        ["baz", "small"],
+        ["foo", large("a")],
+      ])
+    })
+
+    test("should expire the parts along with the value", async () => {
+      const keyvUpstash = createKeyvUpstash({ largeValues })
+
+      await keyvUpstash.set("foo", large("a"), 5000)
+      for (const key of await getPartKeys(keyvUpstash)) {
+        expect(await keyvUpstash.client.pttl(key)).toBeGreaterThan(4000)
+      }
+
+      expect(await keyvUpstash.touch("foo", 60_000)).toBe(true)
+      for (const key of await getPartKeys(keyvUpstash)) {
+        expect(await keyvUpstash.client.pttl(key)).toBeGreaterThan(50_000)
+      }
+
+      await keyvUpstash.delete("foo")
+      await keyvUpstash.set("bar", large("b"))
+      for (const key of await getPartKeys(keyvUpstash)) {
+        expect(await keyvUpstash.client.pttl(key)).toBe(-1)
+      }
+    })
+
+    test("should delete the parts if the manifest cannot be written", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        largeValues,
+        enableAutoPipelining: false,
+      })
+      const multi = keyvUpstash.client.multi.bind(keyvUpstash.client)
+      vi.spyOn(keyvUpstash.client, "multi").mockImplementationOnce(() => {
+        const transaction = multi()
+        vi.spyOn(transaction, "exec").mockRejectedValueOnce(
+          new Error("Service unavailable")
+        )
+        return transaction
+      })
+
+      await expect(keyvUpstash.set("foo", large("a"))).rejects.toThrow(
+        "Service unavailable"
+      )
+
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+    })
+
+    test.each([100, 10])(
+      "should write the value again when a failed write is retried with a threshold of %i",
+      async (threshold) => {
+        const keyvUpstash = createKeyvUpstash({
+          largeValues: { threshold, partSize: 40 },
+          retryPolicy: { retries: 1, minDelay: 1 },
+          enableAutoPipelining: false,
+        })
+        const multi = keyvUpstash.client.multi.bind(keyvUpstash.client)
+        const multiSpy = vi
+          .spyOn(keyvUpstash.client, "multi")
+          .mockImplementationOnce(() => {
+            const transaction = multi()
+            vi.spyOn(transaction, "exec").mockRejectedValueOnce(
+              new Error("Service unavailable")
+            )
+            return transaction
+          })
+
+        expect(await keyvUpstash.set("foo", large("a"))).toBe(true)
+
+        expect(multiSpy).toHaveBeenCalledTimes(2)
+        expect(await keyvUpstash.get("foo")).toBe(large("a"))
+        expect(await getPartKeys(keyvUpstash)).toHaveLength(4)
+      }
+    )
+
+    test("should delete the parts if a part cannot be written", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        largeValues,
+        enableAutoPipelining: false,
+      })
+      const set = keyvUpstash.client.set.bind(keyvUpstash.client)
+      vi.spyOn(keyvUpstash.client, "set")
+        .mockImplementationOnce(set)
+        .mockRejectedValueOnce(new Error("Service unavailable"))
+
+      await expect(keyvUpstash.set("foo", large("a"))).rejects.toThrow(
+        "Service unavailable"
+      )
+
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+    })
+
+    test("should delete the parts with the value", async () => {
+      const keyvUpstash = createKeyvUpstash({
+        namespace: "ns-large",
+        largeValues,
+      })
+
+      await keyvUpstash.set("foo", large("a"))
+      expect(await keyvUpstash.delete("foo")).toBe(true)
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+
+      await keyvUpstash.set("foo", large("a"))
+      await keyvUpstash.set("bar", large("b"))
+      expect(await keyvUpstash.deleteMany(["foo", "bar"])).toBe(true)
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+
+      await keyvUpstash.set("foo", large("a"))
+      await keyvUpstash.clear()
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+    })
+
+    test("should delete the parts of a replaced value", async () => {
+      const keyvUpstash = createKeyvUpstash({ largeValues })
+
+      await keyvUpstash.set("foo", large("a"))
+      await keyvUpstash.set("foo", large("b"))
+      expect(await getPartKeys(keyvUpstash)).toHaveLength(4)
+      expect(await keyvUpstash.get("foo")).toBe(large("b"))
+
+      await keyvUpstash.set("foo", "small")
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+    })
+
+    test("should delete the parts of a value that is not written", async () => {
+      const keyvUpstash = createKeyvUpstash({ largeValues })
+
+      await keyvUpstash.set("foo", "bar")
+      expect(
+        await keyvUpstash.set("foo", large("a"), undefined, { mode: "nx" })
+      ).toBe(false)
+
+      expect(await getPartKeys(keyvUpstash)).toEqual([])
+      expect(await keyvUpstash.get("foo")).toBe("bar")
+    })
+
+    test("should return undefined if a part is missing", async () => {
+      const keyvUpstash = createKeyvUpstash({ largeValues })
+
+      await keyvUpstash.set("foo", large("a"))
+      const [part] = await getPartKeys(keyvUpstash)
+      await keyvUpstash.client.del(part)
+
+      expect(await keyvUpstash.get("foo")).toBeUndefined()
+    })
+
+    test("should export and import large values joined", async () => {
+      const source = createKeyvUpstash({
+        namespace: "ns-large-source",
+        largeValues,
+      })
+      const target = createKeyvUpstash({
+        namespace: "ns-large-target",
+        largeValues,
+      })
+
+      await source.set("foo", large("a"))
+      let ndjson = ""
+      for await (const line of source.export()) {
+        ndjson += line
+      }
+      expect(ndjson).toContain(large("a"))
+
+      expect(await target.import([ndjson])).toEqual({
+        imported: 1,
+        skipped: 0,
+      })
+      expect(await target.get("foo")).toBe(large("a"))
+      expect(await getPartKeys(target)).toHaveLength(8)
+    })
+
+    test("should not be used with hash storage", () => {
+      expect(() =>
+        createKeyvUpstash({ storage: "hash", largeValues: true })
+      ).toThrow("Large values cannot be used with hash storage")
+    })
   })
 })